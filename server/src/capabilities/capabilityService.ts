@@ -55,6 +55,22 @@ function decrypt(encryptedData: string, ivHex: string): string {
   return decrypted;
 }
 
+// Environment variables for each agent API key, first match wins. GROK_API_KEY is the
+// name used before XAI_API_KEY and is still read.
+const AGENT_KEY_ENV_VARS: Record<string, string[]> = {
+  anthropic_api_key: ['ANTHROPIC_API_KEY'],
+  openai_api_key: ['OPENAI_API_KEY'],
+  gemini_api_key: ['GEMINI_API_KEY'],
+  grok_api_key: ['XAI_API_KEY', 'GROK_API_KEY'],
+};
+
+function getEnvApiKey(key: string): string | null {
+  for (const envVar of AGENT_KEY_ENV_VARS[key] || []) {
+    if (process.env[envVar]) return process.env[envVar]!;
+  }
+  return null;
+}
+
 export class CapabilityService {
   // ============================================================================
   // Capability Registry Operations
@@ -462,20 +478,13 @@ export class CapabilityService {
    * Get all API key status for an agent
    */
   async getAgentApiKeysStatus(agentId: string): Promise<{ key: string; configured: boolean; fromEnv: boolean }[]> {
-    const keys = ['anthropic_api_key', 'openai_api_key', 'gemini_api_key', 'grok_api_key'];
-    const envMap: Record<string, string> = {
-      anthropic_api_key: 'ANTHROPIC_API_KEY',
-      openai_api_key: 'OPENAI_API_KEY',
-      gemini_api_key: 'GEMINI_API_KEY',
-      grok_api_key: 'GROK_API_KEY',
-    };
+    const keys = Object.keys(AGENT_KEY_ENV_VARS);
 
     const results: { key: string; configured: boolean; fromEnv: boolean }[] = [];
 
     for (const key of keys) {
       const configured = await this.hasAgentApiKey(agentId, key);
-      const envVar = envMap[key];
-      const fromEnv = !!(envVar && process.env[envVar]);
+      const fromEnv = !!getEnvApiKey(key);
       results.push({ key, configured, fromEnv });
     }
 
@@ -492,19 +501,7 @@ export async function getAgentApiKeyWithFallback(agentId: string, key: string):
   }
 
   // Fall back to environment variable
-  const envMap: Record<string, string> = {
-    anthropic_api_key: 'ANTHROPIC_API_KEY',
-    openai_api_key: 'OPENAI_API_KEY',
-    gemini_api_key: 'GEMINI_API_KEY',
-    grok_api_key: 'GROK_API_KEY',
-  };
-
-  const envVar = envMap[key];
-  if (envVar && process.env[envVar]) {
-    return process.env[envVar]!;
-  }
-
-  return null;
+  return getEnvApiKey(key);
 }
 
 // Export singleton
@@ -0,0 +1,22 @@
+/**
+ * Agent Models
+ *
+ * Which models an agent's conversations may use. Shared by the reply pipeline, the chat
+ * routes (the widget's model picker) and background jobs such as conversation labelling.
+ */
+
+import { isModelEnabled } from '../llm';
+
+/**
+ * Models a caller may pick for this agent. Single-model agents only allow their default;
+ * multi-model agents allow their configured list plus the default. Models disabled in the
+ * catalog are left out, so the list can be empty.
+ */
+export function getAllowedModels(agent: any): string[] {
+  const defaultModel = (agent?.defaultModel as string | null) || process.env.DEFAULT_MODEL || 'claude-sonnet-4-20250514';
+  if (agent?.modelMode !== 'multi' || !Array.isArray(agent.allowedModels)) {
+    return [defaultModel].filter(isModelEnabled);
+  }
+  const allowed = (agent.allowedModels as string[]).filter((m) => typeof m === 'string');
+  return (allowed.includes(defaultModel) ? allowed : [defaultModel, ...allowed]).filter(isModelEnabled);
+}
@@ -0,0 +1,181 @@
+/**
+ * Chat Attachments
+ *
+ * Files a user sends with a chat message. They are uploaded first (`POST /api/chat/upload`)
+ * and linked to the user message when it is sent. Images go to the model as image blocks
+ * on that turn; documents are extracted to text and indexed for the conversation only
+ * (rag/conversationIndex.ts), then retrieved alongside the knowledge base.
+ */
+
+import fs from 'fs/promises';
+import { db } from '../db/client';
+import { attachments } from '../db/schema';
+import { and, asc, eq, inArray, isNull, isNotNull } from 'drizzle-orm';
+import { extractTextFromFile } from '../kb/fileExtractor';
+import { LLMImage } from '../llm/types';
+import { indexConversationDocument } from '../rag/conversationIndex';
+
+export type AttachmentKind = 'image' | 'document';
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Image formats every provider accepts inline
+export const IMAGE_MIME_TYPES: LLMImage['mimeType'][] = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+// Types are sent by the client, so only formats that are safe to serve back are accepted
+// (no text/html, image/svg+xml or other types a browser would render as a page)
+const DOCUMENT_MIME_TYPES = [
+  'text/plain',
+  'text/markdown',
+  'text/csv',
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/msword',
+  'application/json',
+];
+
+// What clients see of an attachment
+export interface AttachmentInfo {
+  id: number;
+  kind: AttachmentKind;
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  path: string;
+}
+
+export function getAttachmentKind(mimeType: string): AttachmentKind | null {
+  if ((IMAGE_MIME_TYPES as string[]).includes(mimeType)) return 'image';
+  if (DOCUMENT_MIME_TYPES.includes(mimeType)) return 'document';
+  return null;
+}
+
+export function toAttachmentInfo(row: any): AttachmentInfo {
+  return { id: row.id, kind: row.kind, fileName: row.fileName, mimeType: row.mimeType, size: row.size };
+}
+
+/**
+ * Store uploaded files for a conversation and index the text of documents.
+ * Unsupported types should be rejected before calling this.
+ */
+export async function saveAttachments(conversationId: number, files: UploadedFile[]) {
+  const saved: any[] = [];
+
+  for (const file of files) {
+    const kind = getAttachmentKind(file.mimetype);
+    if (!kind) continue;
+
+    let extractedText: string | null = null;
+    if (kind === 'document') {
+      try {
+        extractedText = (await extractTextFromFile(file.path, file.mimetype)).content;
+      } catch (err) {
+        console.error(`[attachments] Failed to extract ${file.originalname}:`, err);
+        extractedText = '';
+      }
+    }
+
+    const rows = (await db
+      .insert(attachments)
+      .values({
+        conversationId,
+        kind,
+        fileName: file.originalname.slice(0, 255),
+        mimeType: file.mimetype,
+        size: file.size,
+        storagePath: file.path,
+        extractedText,
+      })
+      .returning()) as any[];
+    saved.push(rows[0]);
+
+    if (extractedText?.trim()) {
+      // Without embeddings the file is still stored and shown, just not searchable
+      await indexConversationDocument(conversationId, rows[0].id, extractedText).catch((err) =>
+        console.error(`[attachments] Failed to index ${file.originalname}:`, err)
+      );
+    }
+  }
+
+  return saved;
+}
+
+/**
+ * Attach not-yet-sent uploads to a user message. Ids from other conversations or already
+ * linked are ignored.
+ */
+export async function linkAttachments(conversationId: number, messageId: number, attachmentIds: number[]) {
+  if (!attachmentIds.length) return [];
+
+  return (await db
+    .update(attachments)
+    .set({ messageId })
+    .where(
+      and(
+        eq(attachments.conversationId, conversationId),
+        inArray(attachments.id, attachmentIds.slice(0, MAX_ATTACHMENTS_PER_MESSAGE)),
+        isNull(attachments.messageId)
+      )
+    )
+    .returning()) as any[];
+}
+
+export async function getMessageAttachments(messageId: number) {
+  return (await db
+    .select()
+    .from(attachments)
+    .where(eq(attachments.messageId, messageId))
+    .orderBy(asc(attachments.id))) as any[];
+}
+
+/**
+ * Sent attachments of a conversation, grouped by message id
+ */
+export async function getConversationAttachments(conversationId: number): Promise<Map<number, AttachmentInfo[]>> {
+  const rows = (await db
+    .select()
+    .from(attachments)
+    .where(and(eq(attachments.conversationId, conversationId), isNotNull(attachments.messageId)))
+    .orderBy(asc(attachments.id))) as any[];
+
+  const byMessage = new Map<number, AttachmentInfo[]>();
+  for (const row of rows) {
+    const list = byMessage.get(row.messageId) || [];
+    list.push(toAttachmentInfo(row));
+    byMessage.set(row.messageId, list);
+  }
+  return byMessage;
+}
+
+export async function getAttachment(conversationId: number, attachmentId: number) {
+  const rows = (await db
+    .select()
+    .from(attachments)
+    .where(and(eq(attachments.id, attachmentId), eq(attachments.conversationId, conversationId)))
+    .limit(1)) as any[];
+  return rows[0] || null;
+}
+
+/**
+ * Image attachments as inline model input. Files missing from disk are skipped.
+ */
+export async function loadImages(rows: any[]): Promise<LLMImage[]> {
+  const images: LLMImage[] = [];
+  for (const row of rows) {
+    if (row.kind !== 'image') continue;
+    try {
+      const data = await fs.readFile(row.storagePath);
+      images.push({ mimeType: row.mimeType, data: data.toString('base64') });
+    } catch (err) {
+      console.error(`[attachments] Missing image ${row.id}:`, err);
+    }
+  }
+  return images;
+}
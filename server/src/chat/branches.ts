@@ -0,0 +1,73 @@
+/**
+ * Conversation Branches
+ *
+ * Messages form a tree through `parentId`: regenerating a reply or editing a user
+ * message adds a sibling instead of overwriting, so earlier branches are preserved.
+ * The conversation's `activeMessageId` marks the leaf of the branch currently shown;
+ * the history sent to the model is the path from the root to that leaf.
+ */
+
+export interface BranchInfo {
+  index: number; // position of this message among its siblings, 0-based
+  count: number;
+  siblingIds: number[]; // oldest first
+}
+
+/**
+ * Leaf of the current branch. Falls back to the newest message for conversations
+ * that predate branching.
+ */
+export function getActiveLeafId(conversation: any, messages: any[]): number | null {
+  const activeId = conversation?.activeMessageId as number | null;
+  if (activeId && messages.some((m) => m.id === activeId)) return activeId;
+  return messages.length ? (messages[messages.length - 1].id as number) : null;
+}
+
+/**
+ * Messages from the root down to `leafId`, inclusive
+ */
+export function getBranchPath(messages: any[], leafId: number | null): any[] {
+  const byId = new Map(messages.map((m) => [m.id as number, m]));
+  const path: any[] = [];
+  const seen = new Set<number>();
+
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path.reverse();
+}
+
+/**
+ * Newest leaf below `messageId`, following the most recent child at each step.
+ * Used when switching to a sibling so the user lands at the end of that branch.
+ */
+export function getLatestLeafId(messages: any[], messageId: number): number {
+  let leafId = messageId;
+  for (;;) {
+    const children = messages.filter((m) => m.parentId === leafId);
+    if (!children.length) return leafId;
+    leafId = Math.max(...children.map((m) => m.id as number));
+  }
+}
+
+/**
+ * Sibling position of each message on a path, for branch switchers
+ */
+export function getBranchInfo(messages: any[], path: any[]): Map<number, BranchInfo> {
+  const info = new Map<number, BranchInfo>();
+
+  for (const message of path) {
+    const siblingIds = messages
+      .filter((m) => (m.parentId ?? null) === (message.parentId ?? null) && m.role === message.role)
+      .map((m) => m.id as number)
+      .sort((a, b) => a - b);
+
+    info.set(message.id, { index: siblingIds.indexOf(message.id), count: siblingIds.length, siblingIds });
+  }
+
+  return info;
+}
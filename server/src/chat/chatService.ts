@@ -1,117 +1,171 @@
 import { db } from '../db/client';
 import { agents, conversations, messages } from '../db/schema';
 import { getRelevantContext } from '../rag/ragService';
-import { getProviderForModel } from '../llm';
-import { LLMMessage } from '../llm/types';
+import { getModelInfo, estimateCost } from '../llm';
+import { LLMMessage, LLMToolDefinition, LLMToolResponse, LLMUsage, ToolStreamOptions } from '../llm/types';
 import { eq, desc } from 'drizzle-orm';
-import { getOrchestrator } from '../mcp-hub';
+import { getToolDefinitions, executeToolCall, ToolCallRecord, MAX_TOOL_STEPS } from './toolUse';
+import { ReplyPipeline, ReplyContext, ReplyError, ReplyOptions, ReplyEvent } from './replyPipeline';
+import { windowHistory, getHistoryTokenBudget, summarizeHistory, countTokens } from './historyWindow';
+import { getCitationRecency, getPreviousContext, mergeContext, renderContextBlock } from './retrievalContext';
+import { resolveCitations } from './citations';
+import { getActiveLeafId, getBranchPath, getBranchInfo, getLatestLeafId } from './branches';
+import {
+  ConversationStatus,
+  getHandoffSettings,
+  matchesHandoffRequest,
+  requestHandoff,
+  reopenConversation,
+  renderHandoffInstruction,
+  extractHandoffMarker,
+} from './handoff';
+import { publishConversationEvent } from './conversationEvents';
+import { getSuggestionSettings, generateSuggestions } from './suggestions';
+import { scheduleConversationLabels } from './conversationLabels';
+import { getAllowedModels } from './agentModels';
+import { ModelChain, getFallbackSettings } from './modelFallback';
+import { GenerationSettings, getGenerationSettings, toGenerateOptions } from './generation';
+import {
+  linkAttachments,
+  getMessageAttachments,
+  getConversationAttachments,
+  loadImages,
+} from './attachments';
+
+// Streaming hooks for a reply; all optional so the JSON route can run without them
+interface ReplyStreamHooks {
+  onDelta?: ((delta: string) => void) | undefined;
+  onEvent?: ((event: ReplyEvent) => void) | undefined;
+  signal?: AbortSignal | undefined;
+}
 
-// Command pattern: !command args or natural language tool requests
-const COMMAND_PATTERN = /^!(\w+)\s+(.+)$/;
+// Tokens and cost of the model calls behind a reply
+interface UsageTally {
+  usage: LLMUsage | null;
+  costUsd: number | null;
+}
 
-interface CapabilityResult {
-  used: boolean;
-  command?: string;
-  result?: string;
-  error?: string;
+// Add a call's tokens to `tally`, priced at the rate of the model that made it
+function addUsage(tally: UsageTally, model: string, usage: LLMUsage | undefined): void {
+  if (!usage) return;
+  tally.usage = {
+    inputTokens: (tally.usage?.inputTokens || 0) + usage.inputTokens,
+    outputTokens: (tally.usage?.outputTokens || 0) + usage.outputTokens,
+  };
+  const cost = estimateCost(model, usage);
+  if (cost !== null) tally.costUsd = Math.round(((tally.costUsd || 0) + cost) * 1_000_000) / 1_000_000;
 }
 
-function buildCapabilityResult(
-  command: string,
-  success: boolean,
-  data: unknown,
-  errorMsg?: string
-): CapabilityResult {
-  const result: CapabilityResult = { used: true };
-  result.command = command;
-  if (success && data) {
-    result.result = JSON.stringify(data, null, 2);
-  }
-  if (errorMsg) {
-    result.error = errorMsg;
-  }
-  return result;
+// Providers report usage when a call completes; a call cut short is estimated from its
+// prompt and the output generated before it stopped
+function estimateUsage(messages: LLMMessage[], output: string): LLMUsage {
+  const inputTokens = messages.reduce(
+    (sum, m) => sum + countTokens(m.content) + (m.toolCalls ? countTokens(JSON.stringify(m.toolCalls)) : 0),
+    0
+  );
+  return { inputTokens, outputTokens: countTokens(output) };
 }
 
 /**
- * Detect and execute capability commands from user message
- * Supports: !coingecko price bitcoin, !api call coingecko ...
+ * Run the model with the hub's tools until it produces a final answer.
+ * Tool requests and results are appended to `history` as the loop progresses.
+ * When `onDelta` is given every step is streamed, so text the model writes
+ * around its tool calls reaches the client as it is generated.
+ * Each step goes through `chain`, so a failing model can be replaced mid-loop.
+ * Every step's usage is added to `tally`, including an estimate for a step cut short.
+ * If `signal` aborts, the loop stops and returns the text produced so far.
  */
-async function detectAndExecuteCapability(message: string): Promise<CapabilityResult> {
-  const match = message.match(COMMAND_PATTERN);
-  if (!match || !match[1] || !match[2]) {
-    return { used: false };
-  }
-
-  const command = match[1].toLowerCase();
-  const args = match[2];
+async function runToolLoop(
+  chain: ModelChain,
+  history: LLMMessage[],
+  tools: LLMToolDefinition[],
+  generation: GenerationSettings,
+  tally: UsageTally,
+  { onDelta, onEvent, signal }: ReplyStreamHooks = {}
+): Promise<{ reply: string; toolCalls: ToolCallRecord[]; interrupted: boolean }> {
+  const toolCalls: ToolCallRecord[] = [];
+  let reply = '';
+
+  for (let step = 0; step < MAX_TOOL_STEPS; step++) {
+    if (signal?.aborted) return { reply, toolCalls, interrupted: true };
+
+    // On the last step, force a text answer so the loop always terminates with a reply
+    const isLastStep = step === MAX_TOOL_STEPS - 1;
+
+    // Text from successive steps is separated by a blank line, streamed or not
+    const separator = reply ? '\n\n' : '';
+    let stepText = '';
+    // The model that started streaming this step, if any
+    let streamingModel: string | null = null;
+
+    let response: LLMToolResponse;
+    try {
+      response = await chain.call(
+        (provider, model, attemptSignal) => {
+          const options: ToolStreamOptions = {
+            model,
+            ...toGenerateOptions(generation, model),
+            tools,
+            toolChoice: isLastStep ? 'none' : 'auto',
+            signal: attemptSignal,
+          };
+          return onDelta
+            ? provider.streamWithTools(history, options, (chunk) => {
+                chain.markActivity();
+                streamingModel = model;
+                if (chunk.type !== 'delta' || !chunk.content) return;
+                chain.markOutput();
+                if (!stepText && separator) onDelta(separator);
+                stepText += chunk.content;
+                onDelta(chunk.content);
+              })
+            : provider.generateWithTools(history, options);
+        },
+        { streamed: !!onDelta }
+      );
+    } catch (err) {
+      if (!signal?.aborted) throw err;
+      if (streamingModel) addUsage(tally, streamingModel, estimateUsage(history, stepText));
+      if (stepText) reply += separator + stepText;
+      return { reply, toolCalls, interrupted: true };
+    }
 
-  try {
-    const orchestrator = getOrchestrator();
-
-    // Route to AnyAPI for API commands
-    if (command === 'api' || command === 'anyapi') {
-      // Parse: !api call <apiId> <endpoint> [params]
-      const apiMatch = args.match(/^call\s+(\w+)\s+(\w+)(?:\s+(.+))?$/i);
-      if (apiMatch && apiMatch[1] && apiMatch[2]) {
-        const apiId = apiMatch[1];
-        const endpoint = apiMatch[2];
-        const paramsStr = apiMatch[3];
-
-        const queryParams: Record<string, string> = {};
-        if (paramsStr) {
-          // Parse key=value pairs
-          paramsStr.split(/\s+/).forEach(pair => {
-            const parts = pair.split('=');
-            if (parts[0] && parts[1]) {
-              queryParams[parts[0]] = parts[1];
-            }
-          });
-        }
+    addUsage(tally, chain.model, response.usage);
 
-        const result = await orchestrator.executeAction('anyapi', 'call_api', { apiId, endpoint, queryParams });
-        return buildCapabilityResult(`!api call ${apiId} ${endpoint}`, result.success, result.data, result.error);
-      }
+    if (response.content) {
+      reply += separator + response.content;
     }
 
-    // CoinGecko shortcuts: !coingecko price bitcoin, !crypto price eth
-    if (command === 'coingecko' || command === 'crypto') {
-      const priceMatch = args.match(/^price\s+(\w+)/i);
-      if (priceMatch && priceMatch[1]) {
-        const coinId = priceMatch[1].toLowerCase();
-        const result = await orchestrator.executeAction('anyapi', 'call_api', {
-          apiId: 'coingecko',
-          endpoint: 'simple_price',
-          queryParams: { ids: coinId, vs_currencies: 'usd' },
-        });
-        return buildCapabilityResult(`!coingecko price ${coinId}`, result.success, result.data, result.error);
-      }
+    if (response.stopReason === 'max_tokens') {
+      console.warn(`[chat] ${chain.model} hit the output token limit during tool step ${step + 1}`);
     }
 
-    // Weather shortcut: !weather <city>
-    if (command === 'weather') {
-      const city = args.trim();
-      const result = await orchestrator.executeAction('anyapi', 'call_api', {
-        apiId: 'openweather',
-        endpoint: 'current_weather',
-        queryParams: { q: city, units: 'metric' },
+    if (!response.toolCalls.length) break;
+
+    history.push({
+      role: 'assistant',
+      content: response.content,
+      toolCalls: response.toolCalls,
+      reasoning: response.reasoning,
+    });
+
+    for (const call of response.toolCalls) {
+      onEvent?.({ event: 'tool_call', id: call.id, name: call.name, arguments: call.arguments });
+      const { content, record } = await executeToolCall(call);
+      toolCalls.push(record);
+      onEvent?.({
+        event: 'tool_result',
+        id: call.id,
+        server: record.server,
+        tool: record.tool,
+        success: record.success,
+        error: record.error,
       });
-      return buildCapabilityResult(`!weather ${city}`, result.success, result.data, result.error);
-    }
-
-    // List available APIs: !apis or !api list
-    if (command === 'apis' || (command === 'api' && /^list/i.test(args))) {
-      const result = await orchestrator.executeAction('anyapi', 'list_apis', {});
-      return buildCapabilityResult('!api list', result.success, result.data, result.error);
+      history.push({ role: 'tool', content, toolCallId: call.id });
     }
-
-    return { used: false };
-  } catch (error) {
-    const errResult: CapabilityResult = { used: true };
-    errResult.command = `!${command}`;
-    errResult.error = error instanceof Error ? error.message : 'Unknown error';
-    return errResult;
   }
+
+  return { reply, toolCalls, interrupted: false };
 }
 
 export async function ensureDefaultAgent(): Promise<string> {
@@ -146,19 +200,29 @@ export async function startConversation(agentId: string, externalUserId?: string
 
 export async function appendMessage(
   conversationId: number,
-  role: 'user' | 'assistant' | 'system',
+  role: 'user' | 'assistant' | 'system' | 'operator',
   content: string,
-  metadata?: Record<string, unknown>
+  metadata?: Record<string, unknown>,
+  parentId: number | null = null
 ) {
   const rows = (await db
     .insert(messages)
-    .values({ conversationId, role, content, metadata: metadata || {} })
+    .values({ conversationId, parentId, role, content, metadata: metadata || {} })
     .returning()) as any[];
 
   return rows[0];
 }
 
-export async function getConversationWithMessages(conversationId: number) {
+// Point the conversation at the leaf of the branch the user is on
+async function setActiveMessage(conversationId: number, messageId: number) {
+  await db
+    .update(conversations)
+    .set({ activeMessageId: messageId, updatedAt: new Date() })
+    .where(eq(conversations.id, conversationId));
+}
+
+// Conversation row and every message on every branch, oldest first
+async function loadConversation(conversationId: number) {
   const convRows = (await db
     .select()
     .from(conversations)
@@ -177,180 +241,466 @@ export async function getConversationWithMessages(conversationId: number) {
   return { conversation: conv, messages: msgRows.reverse() };
 }
 
-export async function generateReply(
-  conversationId: number,
-  userMessage: string
-): Promise<{ reply: string; sources: { content: string; sourceTitle: string }[]; capabilityUsed?: string }> {
-  const conv = await getConversationWithMessages(conversationId);
-  if (!conv) throw new Error('Conversation not found');
-
-  const agentId = conv.conversation.agentId as string;
-
-  // Check for capability commands first
-  const capabilityResult = await detectAndExecuteCapability(userMessage);
-
-  const rag = await getRelevantContext(agentId, userMessage, 2000);
-
-  const history: LLMMessage[] = [];
+/**
+ * Conversation with the messages of its active branch, each annotated with
+ * `branch: { index, count, siblingIds }` for branch switchers
+ */
+export async function getConversationWithMessages(conversationId: number) {
+  const loaded = await loadConversation(conversationId);
+  if (!loaded) return null;
+
+  const path = getBranchPath(loaded.messages, getActiveLeafId(loaded.conversation, loaded.messages));
+  const branches = getBranchInfo(loaded.messages, path);
+  const attachments = await getConversationAttachments(conversationId);
+
+  return {
+    conversation: loaded.conversation,
+    messages: path.map((m) => ({
+      ...m,
+      branch: branches.get(m.id),
+      ...(attachments.has(m.id) ? { attachments: attachments.get(m.id) } : {}),
+    })),
+  };
+}
 
-  const agentRows = (await db.select().from(agents).where(eq(agents.id, agentId)).limit(1)) as any[];
-  const agent = agentRows[0];
-  let systemInstructions =
-    (agent?.instructions as string | null) ||
-    'You are an Agent-in-a-Box assistant. Use the provided context when it is relevant and cite sources in your answer.';
+/**
+ * Answer a user turn again, adding a sibling reply. `messageId` may be the reply to
+ * replace or its user turn; without it the last turn of the active branch is used.
+ */
+export async function regenerateReply(conversationId: number, messageId: number | undefined, options: ReplyOptions) {
+  const loaded = await loadConversation(conversationId);
+  if (!loaded) throw new ReplyError('Conversation not found', 404);
+
+  const targetId = messageId ?? getActiveLeafId(loaded.conversation, loaded.messages);
+  let target = loaded.messages.find((m) => m.id === targetId);
+  if (target?.role === 'assistant') {
+    target = loaded.messages.find((m) => m.id === target.parentId);
+  }
+  if (!target || target.role !== 'user') {
+    throw new ReplyError('Message not found', 404);
+  }
 
-  // Add capability awareness to system prompt
-  systemInstructions += '\n\nYou can execute capability commands like !coingecko price bitcoin, !weather city, or !api call <id> <endpoint>. When a user uses these commands, format the results nicely.';
+  return replyPipeline.run(conversationId, target.content as string, { ...options, replyTo: target.id as number });
+}
 
-  history.push({
-    role: 'system',
-    content: systemInstructions,
-  });
+/**
+ * Replace a user turn with new text as a sibling branch and answer it
+ */
+export async function editAndResend(
+  conversationId: number,
+  messageId: number,
+  content: string,
+  options: ReplyOptions
+) {
+  const loaded = await loadConversation(conversationId);
+  if (!loaded) throw new ReplyError('Conversation not found', 404);
 
-  for (const m of conv.messages as any[]) {
-    const role = (m.role as 'user' | 'assistant' | 'system') || 'user';
-    history.push({ role, content: m.content as string });
+  const target = loaded.messages.find((m) => m.id === messageId);
+  if (!target || target.role !== 'user') {
+    throw new ReplyError('Message not found', 404);
   }
 
-  // Build user message with context
-  let userContent = userMessage;
-  if (rag.context) {
-    userContent += `\n\nContext:\n${rag.context}`;
-  }
+  return replyPipeline.run(conversationId, content, { ...options, parentId: (target.parentId as number | null) ?? null });
+}
 
-  // If a capability was used, include its result
-  if (capabilityResult.used) {
-    if (capabilityResult.result) {
-      userContent += `\n\nAPI Result (${capabilityResult.command}):\n${capabilityResult.result}`;
-    } else if (capabilityResult.error) {
-      userContent += `\n\nAPI Error (${capabilityResult.command}): ${capabilityResult.error}`;
-    }
+/**
+ * Make the branch through `messageId` the active one, landing on its newest leaf
+ */
+export async function switchBranch(conversationId: number, messageId: number) {
+  const loaded = await loadConversation(conversationId);
+  if (!loaded) throw new ReplyError('Conversation not found', 404);
+  if (!loaded.messages.some((m) => m.id === messageId)) {
+    throw new ReplyError('Message not found', 404);
   }
 
-  history.push({ role: 'user', content: userContent });
-
-  const model =
-    (agent?.defaultModel as string | null) ||
-    process.env.DEFAULT_MODEL ||
-    'claude-sonnet-4-20250514';
-
-  const provider = getProviderForModel(model);
-
-  const reply = await provider.generate(history, {
-    model,
-    maxTokens: 1024,
-  });
+  await setActiveMessage(conversationId, getLatestLeafId(loaded.messages, messageId));
+  return getConversationWithMessages(conversationId);
+}
 
-  await appendMessage(conversationId, 'assistant', reply, {
-    sources: rag.sources,
-    capabilityUsed: capabilityResult.command,
-  });
+/**
+ * Store an operator's reply at the end of the active branch and push it to the
+ * conversation's connected clients. The conversation must have been claimed.
+ */
+export async function appendOperatorMessage(conversationId: number, operatorName: string, content: string) {
+  const loaded = await loadConversation(conversationId);
+  if (!loaded) throw new ReplyError('Conversation not found', 404);
+  if (loaded.conversation.status !== 'human') {
+    throw new ReplyError('Claim the conversation before replying', 409);
+  }
 
-  const sources = rag.sources.map((s) => ({ content: s.content, sourceTitle: s.sourceTitle }));
+  const parentId = getActiveLeafId(loaded.conversation, loaded.messages);
+  const saved = await appendMessage(conversationId, 'operator', content, { operatorName }, parentId);
+  await setActiveMessage(conversationId, saved.id as number);
 
-  // Build return conditionally to satisfy exactOptionalPropertyTypes
-  const returnVal: { reply: string; sources: { content: string; sourceTitle: string }[]; capabilityUsed?: string } = {
-    reply,
-    sources,
-  };
-  if (capabilityResult.command) {
-    returnVal.capabilityUsed = capabilityResult.command;
-  }
-  return returnVal;
+  publishConversationEvent(conversationId, { event: 'message', message: saved });
+  return saved;
 }
 
-export async function streamReply(
-  conversationId: number,
-  userMessage: string,
-  onChunk: (delta: string, isFinal: boolean) => void
-): Promise<{ full: string; sources: { content: string; sourceTitle: string }[]; capabilityUsed?: string }> {
-  const conv = await getConversationWithMessages(conversationId);
-  if (!conv) throw new Error('Conversation not found');
-
-  const agentId = conv.conversation.agentId as string;
+// ============================================================================
+// Reply pipeline - default stages
+// ============================================================================
 
-  // Check for capability commands first
-  const capabilityResult = await detectAndExecuteCapability(userMessage);
+export const replyPipeline = new ReplyPipeline();
 
-  const rag = await getRelevantContext(agentId, userMessage, 2000);
+replyPipeline.use('load', {
+  name: 'conversation',
+  async run(ctx) {
+    const conv = await loadConversation(ctx.conversationId);
+    if (!conv) throw new ReplyError('Conversation not found', 404);
 
-  const history: LLMMessage[] = [];
+    ctx.conversation = conv.conversation;
+    ctx.agentId = conv.conversation.agentId as string;
 
-  const agentRows = (await db.select().from(agents).where(eq(agents.id, agentId)).limit(1)) as any[];
-  const agent = agentRows[0];
-  let systemInstructions =
-    (agent?.instructions as string | null) ||
-    'You are an Agent-in-a-Box assistant. Use the provided context when it is relevant and cite sources in your answer.';
+    const agentRows = (await db.select().from(agents).where(eq(agents.id, ctx.agentId)).limit(1)) as any[];
+    ctx.agent = agentRows[0];
 
-  // Add capability awareness to system prompt
-  systemInstructions += '\n\nYou can execute capability commands like !coingecko price bitcoin, !weather city, or !api call <id> <endpoint>. When a user uses these commands, format the results nicely.';
+    ctx.instructions.push(
+      (ctx.agent?.instructions as string | null) ||
+        'You are an Agent-in-a-Box assistant. Use the provided context when it is relevant and cite sources in your answer.'
+    );
 
-  history.push({
-    role: 'system',
-    content: systemInstructions,
-  });
+    const allowedModels = getAllowedModels(ctx.agent);
+    if (ctx.requestedModel && !allowedModels.includes(ctx.requestedModel)) {
+      throw new ReplyError(`Model '${ctx.requestedModel}' is not available for this agent`);
+    }
+    if (!allowedModels.length) {
+      throw new ReplyError('No enabled model is configured for this agent', 503);
+    }
+    ctx.model = ctx.requestedModel || allowedModels[0]!;
+
+    if (ctx.replyTo !== undefined) {
+      // Regenerating: answer an existing user turn with the history that preceded it
+      const target = conv.messages.find((m) => m.id === ctx.replyTo && m.role === 'user');
+      if (!target) throw new ReplyError('Message not found', 404);
+      ctx.history = getBranchPath(conv.messages, target.parentId as number | null);
+      ctx.userMessageId = target.id as number;
+      return;
+    }
 
-  for (const m of conv.messages as any[]) {
-    const role = (m.role as 'user' | 'assistant' | 'system') || 'user';
-    history.push({ role, content: m.content as string });
-  }
+    const parentId =
+      ctx.parentId !== undefined ? ctx.parentId : getActiveLeafId(conv.conversation, conv.messages);
+    ctx.history = getBranchPath(conv.messages, parentId);
+
+    // Persist the user turn after loading history so it is not sent to the model twice
+    const saved = await appendMessage(ctx.conversationId, 'user', ctx.userMessage, undefined, parentId);
+    ctx.userMessageId = saved.id as number;
+    await setActiveMessage(ctx.conversationId, ctx.userMessageId);
+  },
+});
+
+replyPipeline.use('load', {
+  name: 'attachments',
+  async run(ctx) {
+    if (!ctx.userMessageId) return;
+    // A regenerated turn keeps the files it was sent with
+    ctx.attachments =
+      ctx.replyTo !== undefined
+        ? await getMessageAttachments(ctx.userMessageId)
+        : await linkAttachments(ctx.conversationId, ctx.userMessageId, ctx.attachmentIds);
+  },
+});
+
+replyPipeline.use('preProcess', {
+  name: 'handoff',
+  async run(ctx) {
+    const status = ctx.conversation.status as ConversationStatus;
+
+    if (status === 'closed') {
+      ctx.conversation = (await reopenConversation(ctx.conversationId)) || ctx.conversation;
+    } else if (status !== 'bot') {
+      // A person is handling the conversation: keep the user's turn for them and stay silent
+      ctx.skipPhases.push('retrieval', 'prompt', 'model', 'postProcess', 'persist');
+      if (ctx.replyTo !== undefined) return;
+      publishConversationEvent(ctx.conversationId, {
+        event: 'message',
+        message: { id: ctx.userMessageId, role: 'user', content: ctx.userMessage, createdAt: new Date() },
+      });
+      return;
+    }
 
-  // Build user message with context
-  let userContent = userMessage;
-  if (rag.context) {
-    userContent += `\n\nContext:\n${rag.context}`;
-  }
+    const settings = getHandoffSettings(ctx.agent);
+    if (!settings.enabled || !matchesHandoffRequest(ctx.userMessage, settings.keywords)) return;
+
+    ctx.conversation = (await requestHandoff(ctx.conversationId, 'user_request')) || ctx.conversation;
+    ctx.reply = settings.message;
+    ctx.metadata.handoff = { reason: 'user_request' };
+    ctx.skipPhases.push('retrieval', 'prompt', 'model');
+  },
+});
+
+replyPipeline.use('retrieval', {
+  name: 'knowledgeBase',
+  async run(ctx) {
+    // A turn with only attachments has nothing to search for
+    const { sources } = ctx.userMessage.trim()
+      ? await getRelevantContext(ctx.agentId, ctx.userMessage, 2000, ctx.conversationId)
+      : { sources: [] };
+    ctx.retrieval = mergeContext(getPreviousContext(ctx.history), sources, getCitationRecency(ctx.history));
+  },
+});
+
+replyPipeline.use('prompt', {
+  name: 'tools',
+  run(ctx) {
+    if (getModelInfo(ctx.model)?.supportsTools === false) return;
+    ctx.tools = getToolDefinitions();
+    if (ctx.tools.length) {
+      ctx.instructions.push(
+        'You can call tools to fetch live data or perform actions. Use them when they help answer the user, and present their results clearly.'
+      );
+    }
+  },
+});
+
+replyPipeline.use('prompt', {
+  name: 'history',
+  async run(ctx) {
+    // The stored summary only applies while its last message is on the active branch
+    const summarizedIndex = ctx.history.findIndex((m) => m.id === ctx.conversation.summaryMessageId);
+    let summary = summarizedIndex >= 0 ? (ctx.conversation.summary as string | null) || null : null;
+    const unsummarized = ctx.history.slice(summarizedIndex + 1);
+
+    const { recent, toSummarize } = windowHistory(unsummarized, getHistoryTokenBudget(ctx.model));
+
+    if (toSummarize.length) {
+      try {
+        const response = await summarizeHistory(ctx.agentId, ctx.model, summary, toSummarize);
+        summary = response.content;
+        // Summarising is billed with the reply that triggered it
+        addUsage(ctx, ctx.model, response.usage);
+        await db
+          .update(conversations)
+          .set({
+            summary,
+            summaryMessageId: toSummarize[toSummarize.length - 1].id,
+            updatedAt: new Date(),
+          })
+          .where(eq(conversations.id, ctx.conversationId));
+      } catch (err) {
+        // Fall back to the recent window; the overflow is summarised on a later turn
+        console.error('[chat] Failed to summarise conversation history:', err);
+      }
+    }
 
-  // If a capability was used, include its result
-  if (capabilityResult.used) {
-    if (capabilityResult.result) {
-      userContent += `\n\nAPI Result (${capabilityResult.command}):\n${capabilityResult.result}`;
-    } else if (capabilityResult.error) {
-      userContent += `\n\nAPI Error (${capabilityResult.command}): ${capabilityResult.error}`;
+    ctx.history = recent;
+    if (summary) {
+      ctx.instructions.push(`Summary of the earlier conversation:\n${summary}`);
+    }
+  },
+});
+
+replyPipeline.use('prompt', {
+  name: 'context',
+  run(ctx) {
+    if (ctx.retrieval.sources.length) {
+      ctx.instructions.push(renderContextBlock(ctx.retrieval.sources));
+    }
+  },
+});
+
+replyPipeline.use('prompt', {
+  name: 'handoff',
+  run(ctx) {
+    const settings = getHandoffSettings(ctx.agent);
+    if (settings.enabled && settings.modelEscalation) {
+      ctx.instructions.push(renderHandoffInstruction());
     }
+  },
+});
+
+replyPipeline.use('prompt', {
+  name: 'attachments',
+  async run(ctx) {
+    // Attached documents are searched like the knowledge base; images go with the turn itself
+    const images = await loadImages(ctx.attachments);
+    if (images.length && getModelInfo(ctx.model)?.supportsVision === false) {
+      ctx.instructions.push(
+        `The user attached ${images.length === 1 ? 'an image' : `${images.length} images`} that you cannot see. If the question depends on it, say so.`
+      );
+      return;
+    }
+    ctx.images = images;
+  },
+});
+
+replyPipeline.use('prompt', {
+  name: 'messages',
+  run(ctx) {
+    const prompt: LLMMessage[] = [{ role: 'system', content: ctx.instructions.join('\n\n') }];
+
+    for (const m of ctx.history) {
+      // Operator replies are the assistant's side of the conversation from the model's view
+      const role = m.role === 'operator' ? 'assistant' : (m.role as 'user' | 'assistant' | 'system') || 'user';
+      prompt.push({ role, content: m.content as string });
+    }
+
+    // Sent exactly as persisted; retrieved context lives in the system prompt
+    prompt.push({
+      role: 'user',
+      // Files can be sent without any text
+      content: ctx.userMessage || 'See the attached files.',
+      ...(ctx.images.length ? { images: ctx.images } : {}),
+    });
+
+    ctx.prompt = prompt;
+  },
+});
+
+async function generateReply(ctx: ReplyContext, chain: ModelChain): Promise<void> {
+  const generation = getGenerationSettings(ctx.agent);
+
+  if (ctx.tools.length) {
+    const result = await runToolLoop(chain, ctx.prompt, ctx.tools, generation, ctx, ctx);
+    ctx.reply = result.reply;
+    ctx.toolCalls = result.toolCalls;
+    ctx.interrupted = result.interrupted;
+    return;
   }
 
-  history.push({ role: 'user', content: userContent });
+  if (!ctx.onDelta) {
+    const response = await chain.call((provider, model, signal) =>
+      provider.generate(ctx.prompt, { model, ...toGenerateOptions(generation, model), signal }),
+      { streamed: false }
+    );
+    ctx.reply = response.content;
+    addUsage(ctx, chain.model, response.usage);
+    return;
+  }
 
-  const model =
-    (agent?.defaultModel as string | null) ||
-    process.env.DEFAULT_MODEL ||
-    'claude-sonnet-4-20250514';
+  const onDelta = ctx.onDelta;
+  let full = '';
+  // Set once the model starts streaming, until its usage has been counted
+  let uncountedModel: string | null = null;
 
-  const provider = getProviderForModel(model);
+  try {
+    await chain.call((provider, model, signal) =>
+      provider.stream(
+        ctx.prompt,
+        { model, ...toGenerateOptions(generation, model), signal },
+        (chunk) => {
+          chain.markActivity();
+          uncountedModel = model;
+          if (chunk.type === 'delta') {
+            if (chunk.content) chain.markOutput();
+            full += chunk.content;
+            onDelta(chunk.content);
+          } else if (chunk.type === 'final') {
+            addUsage(ctx, model, chunk.usage);
+            uncountedModel = null;
+          }
+        }
+      ),
+      { streamed: true }
+    );
+  } catch (err) {
+    // The client went away mid-reply; keep what was generated
+    if (!ctx.signal?.aborted) throw err;
+    ctx.interrupted = true;
+    if (uncountedModel) addUsage(ctx, uncountedModel, estimateUsage(ctx.prompt, full));
+  }
 
-  let full = '';
+  ctx.reply = full;
+}
 
-  await provider.stream(
-    history,
-    {
-      model,
-      maxTokens: 1024,
-    },
-    (chunk) => {
-      if (chunk.type === 'delta') {
-        full += chunk.content;
-        onChunk(chunk.content, false);
-      } else if (chunk.type === 'final') {
-        // final chunk already accumulated in full
+replyPipeline.use('model', {
+  name: 'generate',
+  async run(ctx) {
+    const requestedModel = ctx.model;
+    const chain = new ModelChain(ctx.agentId, ctx.model, getFallbackSettings(ctx.agent), ctx.signal);
+
+    try {
+      await generateReply(ctx, chain);
+    } finally {
+      // Later stages (cost, suggestions) and the stored message use the model that answered
+      ctx.model = chain.model;
+      if (chain.attempts.length) {
+        ctx.metadata.fallback = { requestedModel, attempts: chain.attempts };
       }
     }
-  );
-
-  await appendMessage(conversationId, 'assistant', full, {
-    sources: rag.sources,
-    capabilityUsed: capabilityResult.command,
-  });
-
-  const sources = rag.sources.map((s) => ({ content: s.content, sourceTitle: s.sourceTitle }));
-
-  // Build return conditionally to satisfy exactOptionalPropertyTypes
-  const returnVal: { full: string; sources: { content: string; sourceTitle: string }[]; capabilityUsed?: string } = {
-    full,
-    sources,
-  };
-  if (capabilityResult.command) {
-    returnVal.capabilityUsed = capabilityResult.command;
-  }
-  return returnVal;
-}
+  },
+});
+
+replyPipeline.use('postProcess', {
+  name: 'citations',
+  run(ctx) {
+    if (!ctx.retrieval.sources.length) return;
+    const { reply, citations } = resolveCitations(ctx.reply, ctx.retrieval.sources);
+    ctx.reply = reply;
+    ctx.citations = citations;
+  },
+});
+
+replyPipeline.use('postProcess', {
+  name: 'handoff',
+  async run(ctx) {
+    const settings = getHandoffSettings(ctx.agent);
+    if (!settings.enabled || !settings.modelEscalation) return;
+
+    const { reply, escalate } = extractHandoffMarker(ctx.reply);
+    if (!escalate) return;
+
+    ctx.reply = reply || settings.message;
+    ctx.metadata.handoff = { reason: 'model' };
+    ctx.conversation = (await requestHandoff(ctx.conversationId, 'model')) || ctx.conversation;
+  },
+});
+
+replyPipeline.use('postProcess', {
+  name: 'suggestions',
+  async run(ctx) {
+    const settings = getSuggestionSettings(ctx.agent);
+    if (!settings.enabled || ctx.interrupted || !ctx.reply || ctx.metadata.handoff) return;
+    // Suggestions are grounded in sources; without any they would be guesses
+    if (!ctx.retrieval.sources.length) return;
+
+    try {
+      const { suggestions, usage } = await generateSuggestions(
+        ctx.agentId,
+        ctx.model,
+        ctx.userMessage,
+        ctx.reply,
+        ctx.retrieval.sources,
+        settings.count
+      );
+      addUsage(ctx, ctx.model, usage);
+      ctx.suggestions = suggestions;
+      if (suggestions.length) ctx.onEvent?.({ event: 'suggestions', suggestions });
+    } catch (err) {
+      // The reply stands on its own
+      console.error('[chat] Failed to generate suggestions:', err);
+    }
+  },
+});
+
+replyPipeline.use('persist', {
+  name: 'assistantMessage',
+  async run(ctx) {
+    // Nothing was generated before the client disconnected
+    if (ctx.interrupted && !ctx.reply) return;
+
+    const saved = await appendMessage(ctx.conversationId, 'assistant', ctx.reply, {
+      model: ctx.model,
+      // Tokens and cost of every model call behind this reply, each priced at its model's rate
+      ...(ctx.usage ? { usage: ctx.usage, costUsd: ctx.costUsd } : {}),
+      ...(ctx.latencyMs !== null ? { latencyMs: ctx.latencyMs } : {}),
+      // Full context block the model saw, reused and merged on the next turn
+      context: ctx.retrieval.sources,
+      retrievedSourceIds: ctx.retrieval.retrieved.map((s) => s.id),
+      citations: ctx.citations,
+      toolCalls: ctx.toolCalls,
+      ...(ctx.suggestions.length ? { suggestions: ctx.suggestions } : {}),
+      ...(ctx.interrupted ? { interrupted: true } : {}),
+      ...ctx.metadata,
+    }, ctx.userMessageId);
+    ctx.messageId = saved.id as number;
+    await setActiveMessage(ctx.conversationId, ctx.messageId);
+  },
+});
+
+replyPipeline.use('persist', {
+  name: 'labels',
+  run(ctx) {
+    // Title and topics come from the first exchange; not awaited so the reply is not held up
+    if (ctx.messageId && !ctx.conversation.labeledAt) scheduleConversationLabels(ctx.conversationId);
+  },
+});
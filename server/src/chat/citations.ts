@@ -0,0 +1,74 @@
+/**
+ * Citations
+ *
+ * The model cites context sources inline as `[n]`, where n is the source's citation id.
+ * After generation the markers are checked against the sources actually supplied: unknown
+ * ids are dropped from the text and the rest are resolved to documents and links. Code
+ * spans and fenced blocks are left alone, as are indexes such as `items[0]`.
+ */
+
+import { ContextSource } from './retrievalContext';
+
+export interface Citation {
+  index: number;
+  documentId: number;
+  chunkId: number;
+  title: string;
+  url: string | null;
+}
+
+// A run of markers such as [1], [1, 3] or [1][3]; not markdown links like [1](https://...)
+// and not a run directly after an identifier, call or index (items[0], f()[1], a[0][1])
+const CITATION_PATTERN = /\s?(?<![\w$\])])((?:\[\d+(?:\s*,\s*\d+)*\])+)(?!\()/g;
+
+const MARKER_PATTERN = /\[([^\]]+)\]/g;
+
+// Fenced blocks (closed or still open at the end) and inline code spans
+const CODE_PATTERN = /(```[\s\S]*?(?:```|$)|~~~[\s\S]*?(?:~~~|$)|`[^`\n]*`)/;
+
+/**
+ * Validate citation markers in a reply. Grouped markers are split into `[1][3]` so clients
+ * only have to render one form. Citations are returned in order of first use.
+ */
+export function resolveCitations(reply: string, sources: ContextSource[]): { reply: string; citations: Citation[] } {
+  // Without sources there is nothing to cite, and any brackets are the model's own text
+  if (!sources.length) return { reply, citations: [] };
+
+  const byId = new Map(sources.map((s) => [s.id, s]));
+  const citations: Citation[] = [];
+  const cited = new Set<number>();
+
+  const replaceMarkers = (segment: string) =>
+    segment.replace(CITATION_PATTERN, (match, run: string) => {
+      const valid = [...run.matchAll(MARKER_PATTERN)]
+        .flatMap((m) => m[1]!.split(','))
+        .map((n) => Number(n.trim()))
+        .filter((n) => byId.has(n));
+
+      if (!valid.length) return '';
+
+      for (const index of valid) {
+        if (cited.has(index)) continue;
+        cited.add(index);
+        const source = byId.get(index)!;
+        citations.push({
+          index,
+          documentId: source.documentId,
+          chunkId: source.chunkId,
+          title: source.sourceTitle,
+          url: source.sourceUrl || null,
+        });
+      }
+
+      const leading = match.startsWith('[') ? '' : match[0];
+      return leading + [...new Set(valid)].map((n) => `[${n}]`).join('');
+    });
+
+  // split() with a capturing pattern alternates text and code; odd entries are code
+  const text = reply
+    .split(CODE_PATTERN)
+    .map((segment, i) => (i % 2 ? segment : replaceMarkers(segment)))
+    .join('');
+
+  return { reply: text, citations };
+}
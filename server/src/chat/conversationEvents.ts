@@ -0,0 +1,41 @@
+/**
+ * Conversation Events
+ *
+ * In-process pub/sub for pushing events to every client connected to a conversation,
+ * outside of the reply a client asked for: typing indicators, and messages added by
+ * something else (an async tool completing, a human operator).
+ */
+
+export type ConversationListener = (payload: Record<string, unknown>) => void;
+
+const listeners = new Map<number, Set<ConversationListener>>();
+
+/**
+ * Receive the conversation's events. Returns the unsubscribe function.
+ */
+export function subscribeToConversation(conversationId: number, listener: ConversationListener): () => void {
+  let set = listeners.get(conversationId);
+  if (!set) {
+    set = new Set();
+    listeners.set(conversationId, set);
+  }
+  set.add(listener);
+
+  return () => {
+    set.delete(listener);
+    if (!set.size && listeners.get(conversationId) === set) listeners.delete(conversationId);
+  };
+}
+
+/**
+ * Push an event to the conversation's listeners, optionally skipping the one it came from
+ */
+export function publishConversationEvent(
+  conversationId: number,
+  payload: Record<string, unknown>,
+  except?: ConversationListener
+) {
+  for (const listener of listeners.get(conversationId) || []) {
+    if (listener !== except) listener({ ...payload, conversationId });
+  }
+}
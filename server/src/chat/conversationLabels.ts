@@ -0,0 +1,209 @@
+/**
+ * Conversation Labels
+ *
+ * After the first exchange of a conversation, a background job asks the agent's cheapest
+ * allowed model for a short title and a few topic labels. Titles passed to
+ * `/api/chat/start` are kept; topics are always stored. Admins browse conversations by topic.
+ *
+ * A failed attempt is retried on a later reply, after a growing delay; after a few failures
+ * the conversation is marked labelled without topics.
+ *
+ * The labelling call is billed with the first reply: its tokens and cost are added to that
+ * message's usage, so they count in usage reports and budgets.
+ */
+
+import { db } from '../db/client';
+import { agents, conversations, messages } from '../db/schema';
+import { and, asc, desc, eq, isNull, lt, sql } from 'drizzle-orm';
+import { estimateCost, getCheapestModel, getProviderForAgent } from '../llm';
+import { LLMUsage } from '../llm/types';
+import { getAllowedModels } from './agentModels';
+
+export const MAX_TOPICS = 3;
+
+const MAX_TITLE_LENGTH = 80;
+const MAX_TOPIC_LENGTH = 32;
+
+// Message text sent to the model; a title only needs the opening
+const MAX_MESSAGE_CHARS = 1000;
+
+// Conversations being labelled by this process, so overlapping replies start one job
+const pending = new Set<number>();
+
+const MAX_ATTEMPTS = 3;
+// Wait before the first retry; doubled for each one after
+const RETRY_DELAY_MS = 60 * 1000;
+
+// Failed attempts by conversation, kept per process
+const failures = new Map<number, { count: number; retryAt: number }>();
+
+// Lower-case, single-spaced labels without punctuation at the ends
+function normalizeTopic(topic: unknown): string | null {
+  if (typeof topic !== 'string') return null;
+  const label = topic
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+  return label && label.length <= MAX_TOPIC_LENGTH ? label : null;
+}
+
+// The model is asked for JSON; tolerate code fences or text around it
+function parseLabels(text: string): { title: string | null; topics: string[] } {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) return { title: null, topics: [] };
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(match[0]);
+  } catch {
+    return { title: null, topics: [] };
+  }
+
+  const title =
+    typeof parsed.title === 'string'
+      ? parsed.title.replace(/\s+/g, ' ').replace(/^["']|["']$/g, '').trim().slice(0, MAX_TITLE_LENGTH) || null
+      : null;
+  const topics = Array.isArray(parsed.topics)
+    ? [...new Set(parsed.topics.map(normalizeTopic).filter((t: string | null): t is string => !!t))]
+    : [];
+
+  return { title, topics: (topics as string[]).slice(0, MAX_TOPICS) };
+}
+
+// Add the labelling call's tokens and cost to the reply it labelled
+async function addUsageToReply(messageId: number, model: string, usage: LLMUsage): Promise<void> {
+  const rows = await db
+    .select({ metadata: messages.metadata })
+    .from(messages)
+    .where(eq(messages.id, messageId))
+    .limit(1);
+  const metadata = (rows[0]?.metadata || {}) as Record<string, any>;
+  const cost = estimateCost(model, usage);
+  await db
+    .update(messages)
+    .set({
+      metadata: {
+        ...metadata,
+        usage: {
+          inputTokens: (metadata.usage?.inputTokens || 0) + usage.inputTokens,
+          outputTokens: (metadata.usage?.outputTokens || 0) + usage.outputTokens,
+        },
+        ...(cost !== null ? { costUsd: Math.round(((metadata.costUsd || 0) + cost) * 1_000_000) / 1_000_000 } : {}),
+      },
+    })
+    .where(eq(messages.id, messageId));
+}
+
+/**
+ * Generate and store the title and topics of a conversation that has none yet.
+ * A failed attempt throws and leaves the conversation unlabelled.
+ */
+export async function labelConversation(conversationId: number): Promise<void> {
+  const rows = (await db
+    .select({ conversation: conversations, agent: agents })
+    .from(conversations)
+    .innerJoin(agents, eq(conversations.agentId, agents.id))
+    .where(eq(conversations.id, conversationId))
+    .limit(1)) as any[];
+  if (!rows[0] || rows[0].conversation.labeledAt) return;
+  const { agent } = rows[0];
+
+  // The first assistant reply and the user message it answers. These need not be the
+  // opening messages: user messages in a conversation handed to an operator get no reply
+  const [reply] = await db
+    .select({ id: messages.id, role: messages.role, content: messages.content })
+    .from(messages)
+    .where(and(eq(messages.conversationId, conversationId), eq(messages.role, 'assistant')))
+    .orderBy(asc(messages.id))
+    .limit(1);
+  if (!reply) return;
+  const [question] = await db
+    .select({ id: messages.id, role: messages.role, content: messages.content })
+    .from(messages)
+    .where(and(eq(messages.conversationId, conversationId), eq(messages.role, 'user'), lt(messages.id, reply.id)))
+    .orderBy(desc(messages.id))
+    .limit(1);
+  const opening = question ? [question, reply] : [reply];
+
+  const model = getCheapestModel(getAllowedModels(agent));
+  if (!model) return;
+  const transcript = opening
+    .map((m) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content.slice(0, MAX_MESSAGE_CHARS)}`)
+    .join('\n\n');
+
+  const provider = await getProviderForAgent(model, agent.id);
+  const response = await provider.generate(
+    [
+      {
+        role: 'system',
+        content: `Label a support conversation for an admin list. Reply with JSON only: {"title": "...", "topics": ["..."]}. The title is at most 8 words and names what the user wants. Topics are 1 to ${MAX_TOPICS} short, general subject labels (1-3 words, lower case) that similar conversations would share.`,
+      },
+      { role: 'user', content: transcript },
+    ],
+    { model, maxTokens: 100 }
+  );
+  if (response.usage) await addUsageToReply(reply.id, model, response.usage);
+
+  const { title, topics } = parseLabels(response.content);
+  if (!title && !topics.length) {
+    throw new Error(`No title or topics in ${model} output`);
+  }
+
+  await db
+    .update(conversations)
+    .set({
+      // A title the client chose wins over a generated one
+      ...(title ? { title: sql`coalesce(${conversations.title}, ${title})` } : {}),
+      topics,
+      labeledAt: new Date(),
+    })
+    .where(and(eq(conversations.id, conversationId), isNull(conversations.labeledAt)));
+}
+
+// Stop retrying after too many failures, or schedule the next attempt
+async function recordFailure(conversationId: number): Promise<void> {
+  const count = (failures.get(conversationId)?.count || 0) + 1;
+  if (count < MAX_ATTEMPTS) {
+    failures.set(conversationId, { count, retryAt: Date.now() + RETRY_DELAY_MS * 2 ** (count - 1) });
+    return;
+  }
+  failures.delete(conversationId);
+  console.warn(`[labels] Giving up on conversation ${conversationId} after ${count} attempts`);
+  await db
+    .update(conversations)
+    .set({ labeledAt: new Date() })
+    .where(and(eq(conversations.id, conversationId), isNull(conversations.labeledAt)));
+}
+
+/**
+ * Label a conversation in the background; errors are logged and never reach the reply.
+ * Conversations whose last attempt failed are skipped until their retry delay has passed.
+ */
+export function scheduleConversationLabels(conversationId: number): void {
+  if (pending.has(conversationId)) return;
+  if ((failures.get(conversationId)?.retryAt || 0) > Date.now()) return;
+  pending.add(conversationId);
+
+  labelConversation(conversationId)
+    .then(() => failures.delete(conversationId))
+    .catch((err) => {
+      console.error(`[labels] Failed to label conversation ${conversationId}:`, err);
+      return recordFailure(conversationId);
+    })
+    .catch((err) => console.error(`[labels] Failed to record labelling failure for ${conversationId}:`, err))
+    .finally(() => pending.delete(conversationId));
+}
+
+/**
+ * Topics used by an agent's conversations, most common first
+ */
+export async function listConversationTopics(agentId: string): Promise<{ topic: string; count: number }[]> {
+  const rows = await db.execute(sql`
+    SELECT t.topic, count(*)::int AS count
+    FROM ai_conversations c, jsonb_array_elements_text(c.topics) AS t(topic)
+    WHERE c.agent_id = ${agentId}
+    GROUP BY t.topic
+    ORDER BY count DESC, t.topic
+  `);
+  return rows.rows as { topic: string; count: number }[];
+}
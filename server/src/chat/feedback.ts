@@ -0,0 +1,136 @@
+/**
+ * Message Feedback
+ *
+ * End users rate assistant replies with a thumbs up or down and an optional comment.
+ * Admins review the negative ratings next to the sources retrieved for each reply,
+ * which is where knowledge-base gaps show up.
+ */
+
+import { db } from '../db/client';
+import { conversations, messages, messageFeedback } from '../db/schema';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { ContextSource } from './retrievalContext';
+
+export type FeedbackRating = 'up' | 'down';
+
+export const FEEDBACK_RATINGS: FeedbackRating[] = ['up', 'down'];
+
+const MAX_COMMENT_LENGTH = 2000;
+
+/**
+ * Store or replace the rating for an assistant message.
+ * Returns null when the message is not an assistant reply in this conversation.
+ */
+export async function recordFeedback(
+  conversationId: number,
+  messageId: number,
+  rating: FeedbackRating,
+  comment?: string
+) {
+  const rows = (await db
+    .select({ role: messages.role, agentId: conversations.agentId })
+    .from(messages)
+    .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+    .where(and(eq(messages.id, messageId), eq(messages.conversationId, conversationId)))
+    .limit(1)) as any[];
+
+  const message = rows[0];
+  if (!message || message.role !== 'assistant') return null;
+
+  const values = {
+    rating,
+    comment: comment?.trim().slice(0, MAX_COMMENT_LENGTH) || null,
+  };
+
+  const saved = (await db
+    .insert(messageFeedback)
+    .values({ messageId, conversationId, agentId: message.agentId, ...values })
+    .onConflictDoUpdate({ target: messageFeedback.messageId, set: { ...values, updatedAt: new Date() } })
+    .returning()) as any[];
+
+  return saved[0];
+}
+
+/**
+ * Rating totals for an agent
+ */
+export async function getFeedbackSummary(agentId: string): Promise<Record<FeedbackRating, number>> {
+  const rows = await db
+    .select({ rating: messageFeedback.rating, count: sql<number>`count(*)::int` })
+    .from(messageFeedback)
+    .where(eq(messageFeedback.agentId, agentId))
+    .groupBy(messageFeedback.rating);
+
+  const summary: Record<FeedbackRating, number> = { up: 0, down: 0 };
+  for (const row of rows) {
+    if (row.rating === 'up' || row.rating === 'down') summary[row.rating] = row.count;
+  }
+  return summary;
+}
+
+/**
+ * Rated replies for an agent, newest first, each with the question that prompted it
+ * and the knowledge-base sources retrieved for it
+ */
+export async function getFeedbackReport(
+  agentId: string,
+  rating: FeedbackRating,
+  page = 1,
+  pageSize = 25
+): Promise<{ items: any[]; total: number }> {
+  const where = and(eq(messageFeedback.agentId, agentId), eq(messageFeedback.rating, rating));
+
+  const countRows = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(messageFeedback)
+    .where(where);
+
+  const rows = (await db
+    .select({ feedback: messageFeedback, message: messages })
+    .from(messageFeedback)
+    .innerJoin(messages, eq(messageFeedback.messageId, messages.id))
+    .where(where)
+    .orderBy(desc(messageFeedback.updatedAt))
+    .limit(pageSize)
+    .offset((page - 1) * pageSize)) as any[];
+
+  const items = await Promise.all(
+    rows.map(async ({ feedback, message }) => {
+      // The user turn the reply answered
+      const questionRows = message.parentId
+        ? ((await db
+            .select({ content: messages.content })
+            .from(messages)
+            .where(eq(messages.id, message.parentId))
+            .limit(1)) as any[])
+        : [];
+
+      const metadata = (message.metadata || {}) as Record<string, any>;
+      const context = (Array.isArray(metadata.context) ? metadata.context : []) as ContextSource[];
+      const retrievedIds = new Set<number>(Array.isArray(metadata.retrievedSourceIds) ? metadata.retrievedSourceIds : []);
+
+      return {
+        feedback,
+        conversationId: message.conversationId,
+        messageId: message.id,
+        question: questionRows[0]?.content || null,
+        answer: message.content,
+        model: metadata.model || null,
+        citations: metadata.citations || [],
+        sources: context
+          .filter((s) => retrievedIds.has(s.id))
+          .map((s) => ({
+            id: s.id,
+            documentId: s.documentId,
+            chunkId: s.chunkId,
+            title: s.sourceTitle,
+            url: s.sourceUrl || null,
+            similarity: s.similarity,
+            content: s.content,
+          })),
+      };
+    })
+  );
+
+  return { items, total: countRows[0]?.count || 0 };
+}
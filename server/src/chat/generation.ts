@@ -0,0 +1,124 @@
+/**
+ * Generation Parameters
+ *
+ * Per-agent sampling settings for replies: temperature, top_p, output length, stop
+ * sequences, and options only one provider understands (Claude's extended thinking).
+ * Unset values leave the provider's default in place. Summaries, suggestions and
+ * conversation labels use their own fixed settings.
+ */
+
+import { getMaxOutputTokens, getModelInfo, getModelProvider } from '../llm';
+import { GenerateOptions } from '../llm/types';
+
+export const MAX_STOP_SEQUENCES = 4;
+export const MAX_OUTPUT_TOKENS = 128000;
+// Anthropic's minimum thinking budget
+export const MIN_THINKING_BUDGET = 1024;
+
+const MAX_STOP_SEQUENCE_LENGTH = 100;
+
+// Reply length for models without an output limit in the catalog
+const FALLBACK_OUTPUT_TOKENS = 4096;
+
+// Per-agent settings, stored in ai_agents.generation
+export interface GenerationSettings {
+  temperature: number | null; // 0-2; Claude caps it at 1
+  topP: number | null; // 0-1
+  // Reply length; lowered for models with a smaller maximum. null uses the model's maximum.
+  maxOutputTokens: number | null;
+  stopSequences: string[];
+  claude: {
+    // Tokens Claude may spend reasoning before it answers; null turns thinking off
+    thinkingBudgetTokens: number | null;
+  };
+}
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  temperature: null,
+  topP: null,
+  maxOutputTokens: null,
+  stopSequences: [],
+  claude: { thinkingBudgetTokens: null },
+};
+
+function numberInRange(value: unknown, min: number, max: number): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= min && n <= max ? n : null;
+}
+
+function intInRange(value: unknown, min: number, max: number): number | null {
+  const n = numberInRange(value, min, max);
+  return n !== null && Number.isInteger(n) ? n : null;
+}
+
+export function getGenerationSettings(agent: any): GenerationSettings {
+  const stored = (agent?.generation || {}) as Partial<GenerationSettings>;
+  const stopSequences = Array.isArray(stored.stopSequences)
+    ? stored.stopSequences.filter(
+        (s): s is string => typeof s === 'string' && !!s && s.length <= MAX_STOP_SEQUENCE_LENGTH
+      )
+    : [];
+  return {
+    temperature: numberInRange(stored.temperature, 0, 2),
+    topP: numberInRange(stored.topP, 0, 1),
+    maxOutputTokens: intInRange(stored.maxOutputTokens, 1, MAX_OUTPUT_TOKENS),
+    stopSequences: [...new Set(stopSequences)].slice(0, MAX_STOP_SEQUENCES),
+    claude: {
+      thinkingBudgetTokens: intInRange(stored.claude?.thinkingBudgetTokens, MIN_THINKING_BUDGET, MAX_OUTPUT_TOKENS),
+    },
+  };
+}
+
+/**
+ * Settings from an admin request body, or an error message
+ */
+export function parseGenerationSettings(body: any): GenerationSettings | string {
+  if (!body || typeof body !== 'object') return 'generation must be an object';
+  const isSet = (value: unknown) => value !== undefined && value !== null && value !== '';
+
+  if (isSet(body.temperature) && numberInRange(body.temperature, 0, 2) === null) {
+    return 'generation.temperature must be between 0 and 2';
+  }
+  if (isSet(body.topP) && numberInRange(body.topP, 0, 1) === null) {
+    return 'generation.topP must be between 0 and 1';
+  }
+  if (isSet(body.maxOutputTokens) && intInRange(body.maxOutputTokens, 1, MAX_OUTPUT_TOKENS) === null) {
+    return `generation.maxOutputTokens must be an integer between 1 and ${MAX_OUTPUT_TOKENS}`;
+  }
+  if (body.stopSequences !== undefined) {
+    if (!Array.isArray(body.stopSequences) || body.stopSequences.some((s: unknown) => typeof s !== 'string' || !s)) {
+      return 'generation.stopSequences must be an array of non-empty strings';
+    }
+    if (body.stopSequences.length > MAX_STOP_SEQUENCES) {
+      return `generation.stopSequences can list at most ${MAX_STOP_SEQUENCES} sequences`;
+    }
+    if (body.stopSequences.some((s: string) => s.length > MAX_STOP_SEQUENCE_LENGTH)) {
+      return `generation.stopSequences entries must be at most ${MAX_STOP_SEQUENCE_LENGTH} characters`;
+    }
+  }
+  const budget = body.claude?.thinkingBudgetTokens;
+  if (isSet(budget) && intInRange(budget, MIN_THINKING_BUDGET, MAX_OUTPUT_TOKENS) === null) {
+    return `generation.claude.thinkingBudgetTokens must be an integer between ${MIN_THINKING_BUDGET} and ${MAX_OUTPUT_TOKENS}`;
+  }
+  return getGenerationSettings({ generation: body });
+}
+
+/**
+ * Provider options for a reply call to `model`, with or without tools
+ */
+export function toGenerateOptions(
+  settings: GenerationSettings,
+  model: string
+): Omit<GenerateOptions, 'model' | 'signal'> {
+  const thinkingBudget = getModelProvider(model) === 'claude' ? settings.claude.thinkingBudgetTokens : null;
+  const replyTokens = settings.maxOutputTokens ?? getModelInfo(model)?.maxOutputTokens ?? FALLBACK_OUTPUT_TOKENS;
+  return {
+    // Thinking counts towards the output limit, so the budget is added on top of the reply length
+    maxTokens: getMaxOutputTokens(model, replyTokens + (thinkingBudget || 0)),
+    ...(settings.temperature !== null ? { temperature: settings.temperature } : {}),
+    ...(settings.topP !== null ? { topP: settings.topP } : {}),
+    ...(settings.stopSequences.length ? { stopSequences: settings.stopSequences } : {}),
+    ...(thinkingBudget ? { thinkingBudgetTokens: thinkingBudget } : {}),
+  };
+}
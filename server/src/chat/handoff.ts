@@ -0,0 +1,186 @@
+/**
+ * Human Handoff
+ *
+ * A conversation is answered by the bot until it is escalated to a person:
+ *
+ *   bot → pending_human → human → closed (or back to bot)
+ *
+ * Escalation happens when the user asks for a person (keyword rule) or when the model
+ * flags that it cannot help (it ends its reply with HANDOFF_MARKER). While a conversation
+ * is pending or with a human the bot stays silent; operators claim it from the admin inbox
+ * and reply as `operator` messages. Status changes are pushed to connected clients.
+ */
+
+import { db } from '../db/client';
+import { conversations, messages } from '../db/schema';
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import { publishConversationEvent } from './conversationEvents';
+import { ReplyError } from './replyPipeline';
+
+export type ConversationStatus = 'bot' | 'pending_human' | 'human' | 'closed';
+
+export const CONVERSATION_STATUSES: ConversationStatus[] = ['bot', 'pending_human', 'human', 'closed'];
+
+export type HandoffReason = 'user_request' | 'model';
+
+// Per-agent settings, stored in ai_agents.handoff
+export interface HandoffSettings {
+  enabled: boolean;
+  // Phrases that escalate when they appear in a user message (case-insensitive)
+  keywords: string[];
+  // Let the model escalate when it cannot help
+  modelEscalation: boolean;
+  // Sent to the user when the conversation is escalated
+  message: string;
+}
+
+export const DEFAULT_HANDOFF_SETTINGS: HandoffSettings = {
+  enabled: false,
+  keywords: [
+    'talk to a human',
+    'talk to a person',
+    'speak to a human',
+    'speak to a person',
+    'real person',
+    'human agent',
+    'live agent',
+    'customer service representative',
+  ],
+  modelEscalation: false,
+  message: "I'm connecting you with a member of our team. They'll reply here as soon as they're available.",
+};
+
+// Model escalation signal; stripped from the reply before it is stored
+export const HANDOFF_MARKER = '[[handoff]]';
+
+export function getHandoffSettings(agent: any): HandoffSettings {
+  const stored = (agent?.handoff || {}) as Partial<HandoffSettings>;
+  return {
+    enabled: stored.enabled === true,
+    keywords: Array.isArray(stored.keywords)
+      ? stored.keywords.filter((k) => typeof k === 'string' && k.trim())
+      : DEFAULT_HANDOFF_SETTINGS.keywords,
+    modelEscalation: stored.modelEscalation === true,
+    message: (typeof stored.message === 'string' && stored.message.trim()) || DEFAULT_HANDOFF_SETTINGS.message,
+  };
+}
+
+/**
+ * Settings from an admin request body, or an error message
+ */
+export function parseHandoffSettings(body: any): HandoffSettings | string {
+  if (!body || typeof body !== 'object') return 'handoff must be an object';
+  if (body.keywords !== undefined && !Array.isArray(body.keywords)) return 'handoff.keywords must be an array';
+  return getHandoffSettings(body);
+}
+
+export function matchesHandoffRequest(message: string, keywords: string[]): boolean {
+  const text = message.toLowerCase();
+  return keywords.some((keyword) => text.includes(keyword.toLowerCase().trim()));
+}
+
+export function renderHandoffInstruction(): string {
+  return `If you cannot answer the user's question from the context you have, or the user needs help only a person can give, say so briefly and end your reply with ${HANDOFF_MARKER}. A member of the support team will then take over.`;
+}
+
+/**
+ * Remove the escalation marker from a model reply
+ */
+export function extractHandoffMarker(reply: string): { reply: string; escalate: boolean } {
+  if (!reply.toLowerCase().includes(HANDOFF_MARKER)) return { reply, escalate: false };
+  const stripped = reply.replace(/\s*\[\[handoff\]\]\s*/gi, ' ').trim();
+  return { reply: stripped, escalate: true };
+}
+
+async function updateStatus(conversationId: number, patch: Record<string, unknown>, from: ConversationStatus[]) {
+  const rows = (await db
+    .update(conversations)
+    .set({ ...patch, updatedAt: new Date() })
+    .where(and(eq(conversations.id, conversationId), inArray(conversations.status, from)))
+    .returning()) as any[];
+
+  const conversation = rows[0];
+  if (conversation) {
+    publishConversationEvent(conversationId, {
+      event: 'status',
+      status: conversation.status,
+      operatorName: conversation.operatorName || null,
+    });
+  }
+  return conversation || null;
+}
+
+/**
+ * Ask for a human. Only bot conversations are escalated; returns null otherwise.
+ */
+export function requestHandoff(conversationId: number, reason: HandoffReason) {
+  return updateStatus(
+    conversationId,
+    { status: 'pending_human', handoffReason: reason, handoffAt: new Date(), operatorName: null },
+    ['bot']
+  );
+}
+
+// A user writing to a closed conversation is answered by the bot again
+export function reopenConversation(conversationId: number) {
+  return updateStatus(conversationId, { status: 'bot', operatorName: null }, ['closed']);
+}
+
+/**
+ * Assign the conversation to an operator; the bot stops answering.
+ * An operator may also take over a conversation that was never escalated.
+ */
+export async function claimConversation(conversationId: number, operatorName: string) {
+  const conversation = await updateStatus(
+    conversationId,
+    { status: 'human', operatorName, handoffAt: sql`COALESCE(${conversations.handoffAt}, NOW())` },
+    ['bot', 'pending_human']
+  );
+  if (!conversation) throw new ReplyError('Conversation is already claimed or closed', 409);
+  return conversation;
+}
+
+// Hand the conversation back to the bot
+export async function releaseConversation(conversationId: number) {
+  const conversation = await updateStatus(
+    conversationId,
+    { status: 'bot', operatorName: null },
+    ['pending_human', 'human']
+  );
+  if (!conversation) throw new ReplyError('Conversation is not with a human', 409);
+  return conversation;
+}
+
+export async function closeConversation(conversationId: number) {
+  const conversation = await updateStatus(conversationId, { status: 'closed' }, ['bot', 'pending_human', 'human']);
+  if (!conversation) throw new ReplyError('Conversation is already closed', 409);
+  return conversation;
+}
+
+/**
+ * Conversations waiting for or assigned to a person, longest waiting first,
+ * each with its latest message
+ */
+export async function getHandoffQueue(
+  agentId: string,
+  statuses: ConversationStatus[] = ['pending_human', 'human']
+) {
+  const rows = (await db
+    .select()
+    .from(conversations)
+    .where(and(eq(conversations.agentId, agentId), inArray(conversations.status, statuses)))
+    .orderBy(conversations.handoffAt)) as any[];
+
+  return Promise.all(
+    rows.map(async (conversation) => {
+      const last = (await db
+        .select({ role: messages.role, content: messages.content, createdAt: messages.createdAt })
+        .from(messages)
+        .where(eq(messages.conversationId, conversation.id))
+        .orderBy(desc(messages.id))
+        .limit(1)) as any[];
+
+      return { conversation, lastMessage: last[0] || null };
+    })
+  );
+}
@@ -0,0 +1,107 @@
+/**
+ * History Window
+ *
+ * Keeps long conversations inside a per-model token budget: the latest turns are sent
+ * verbatim and older turns are folded into a running summary stored on the conversation.
+ */
+
+import { getEncoding, Tiktoken } from 'js-tiktoken';
+import { getModelInfo, getProviderForAgent } from '../llm';
+import { LLMResponse } from '../llm/types';
+
+// Fallback for models missing from the model catalog
+const DEFAULT_CONTEXT_WINDOW = 128000;
+
+// Rough per-message framing cost (role markers, separators)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// After summarising, keep recent turns to this share of the budget so the next
+// few turns fit without triggering another summary
+const SUMMARY_HEADROOM = 0.6;
+
+let encoder: Tiktoken | null = null;
+
+/**
+ * Token count for a piece of text. Uses the cl100k BPE, which tracks the Claude, Gemini
+ * and Grok tokenizers far more closely than a characters/4 heuristic.
+ */
+export function countTokens(text: string): number {
+  if (!encoder) {
+    encoder = getEncoding('cl100k_base');
+  }
+  return encoder.encode(text).length;
+}
+
+/**
+ * Input tokens allowed for verbatim history with this model.
+ * Capped by HISTORY_TOKEN_BUDGET so large-context models do not resend entire sessions.
+ */
+export function getHistoryTokenBudget(model: string): number {
+  const contextWindow = getModelInfo(model)?.contextWindow || DEFAULT_CONTEXT_WINDOW;
+  const cap = Number(process.env.HISTORY_TOKEN_BUDGET || 8000);
+  return Math.min(cap, Math.floor(contextWindow / 4));
+}
+
+/**
+ * Split messages into the newest ones that fit the budget and the older remainder.
+ * The newest message is always kept, even if it alone exceeds the budget.
+ */
+export function splitHistory(history: any[], budget: number): { recent: any[]; older: any[] } {
+  let used = 0;
+  let start = history.length;
+
+  while (start > 0) {
+    const message = history[start - 1];
+    const tokens = countTokens(String(message.content || '')) + MESSAGE_OVERHEAD_TOKENS;
+    if (used + tokens > budget && start < history.length) break;
+    used += tokens;
+    start--;
+  }
+
+  return { recent: history.slice(start), older: history.slice(0, start) };
+}
+
+/**
+ * Window the unsummarised part of a conversation. When turns overflow the budget, the
+ * window is re-cut below the budget and everything older is returned for summarising.
+ */
+export function windowHistory(history: any[], budget: number): { recent: any[]; toSummarize: any[] } {
+  const { recent, older } = splitHistory(history, budget);
+  if (!older.length) {
+    return { recent, toSummarize: [] };
+  }
+
+  const trimmed = splitHistory(history, Math.floor(budget * SUMMARY_HEADROOM));
+  return { recent: trimmed.recent, toSummarize: trimmed.older };
+}
+
+/**
+ * Fold older turns into the running summary using the conversation's model
+ */
+export async function summarizeHistory(
+  agentId: string,
+  model: string,
+  previousSummary: string | null,
+  turns: any[]
+): Promise<LLMResponse> {
+  const transcript = turns
+    .map((m) => `${m.role === 'assistant' ? 'Assistant' : m.role === 'operator' ? 'Support agent' : 'User'}: ${m.content}`)
+    .join('\n\n');
+
+  const provider = await getProviderForAgent(model, agentId);
+
+  return provider.generate(
+    [
+      {
+        role: 'system',
+        content:
+          'You maintain a running summary of a support conversation. Merge the existing summary with the new turns into one concise summary. Keep facts, names, numbers, decisions, open questions and anything the user asked to remember. Write in plain prose, no preamble.',
+      },
+      {
+        role: 'user',
+        content: `Existing summary:\n${previousSummary || '(none)'}\n\nNew turns:\n${transcript}`,
+      },
+    ],
+    { model, maxTokens: 512 }
+  );
+}
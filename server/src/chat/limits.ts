@@ -0,0 +1,342 @@
+/**
+ * Chat Limits
+ *
+ * Per-agent guards on the public chat API, checked before a reply is generated:
+ *
+ *   - messages per minute per visitor (client IP + external user id), and a multiple of it
+ *     per client IP so that switching external user ids does not reset the count
+ *   - daily token budget (UTC day)
+ *   - monthly spend cap in USD (UTC month)
+ *
+ * Budgets are read from the usage recorded on assistant messages (see usage.ts). Crossing an
+ * agent's alert threshold or hitting a limit raises an admin alert, at most once per period.
+ *
+ * Starting conversations and uploading files are limited per client IP for every agent.
+ */
+
+import { db } from '../db/client';
+import { agents, agentAlerts, conversations } from '../db/schema';
+import { and, desc, eq, isNull, sql } from 'drizzle-orm';
+import { getUsageTotals } from './usage';
+
+export type LimitCode = 'rate_limited' | 'daily_token_budget' | 'monthly_spend_cap';
+
+export type AlertKind =
+  | 'rate_limited'
+  | 'daily_tokens_warning'
+  | 'daily_tokens_exceeded'
+  | 'monthly_spend_warning'
+  | 'monthly_spend_exceeded';
+
+// Per-agent settings, stored in ai_agents.limits; null turns a limit off
+export interface LimitSettings {
+  messagesPerMinute: number | null;
+  dailyTokenBudget: number | null;
+  monthlySpendCapUsd: number | null;
+  // Share of a budget (0-1) at which admins are alerted
+  alertThreshold: number;
+}
+
+export const DEFAULT_LIMIT_SETTINGS: LimitSettings = {
+  messagesPerMinute: null,
+  dailyTokenBudget: null,
+  monthlySpendCapUsd: null,
+  alertThreshold: 0.8,
+};
+
+// A request refused by a limit; sent to clients as a 429
+export interface LimitExceeded {
+  code: LimitCode;
+  message: string;
+  // Seconds until the limit resets
+  retryAfter: number;
+}
+
+const RATE_WINDOW_MS = 60 * 1000;
+
+// Visitors that can share a client IP (an office, a mobile carrier) before its limit is hit
+export const VISITORS_PER_IP = 5;
+
+// Per-IP requests per minute for chat routes that do not generate a reply
+export const REQUEST_RATE_LIMITS = {
+  start: 30,
+  // Each upload embeds its document text, so it is kept lower
+  upload: 10,
+};
+
+// Recorded usage is re-read at most this often, so budgets can overshoot by the replies in between
+const USAGE_CACHE_MS = 30 * 1000;
+
+// Request times in the current window, by agent and visitor or IP
+const recentMessages = new Map<string, number[]>();
+
+const usageCache = new Map<string, { at: number; dailyTokens: number; monthlyCostUsd: number }>();
+
+// Alerts this process already raised, so repeated checks skip the insert
+const raisedAlerts = new Set<string>();
+
+function positiveOrNull(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+function countOrNull(value: unknown): number | null {
+  const n = positiveOrNull(value);
+  return n === null ? null : Math.max(Math.floor(n), 1);
+}
+
+export function getLimitSettings(agent: any): LimitSettings {
+  const stored = (agent?.limits || {}) as Partial<LimitSettings>;
+  const threshold = Number(stored.alertThreshold);
+  return {
+    messagesPerMinute:
+      stored.messagesPerMinute === undefined
+        ? DEFAULT_LIMIT_SETTINGS.messagesPerMinute
+        : countOrNull(stored.messagesPerMinute),
+    dailyTokenBudget: countOrNull(stored.dailyTokenBudget),
+    monthlySpendCapUsd: positiveOrNull(stored.monthlySpendCapUsd),
+    alertThreshold: threshold > 0 && threshold <= 1 ? threshold : DEFAULT_LIMIT_SETTINGS.alertThreshold,
+  };
+}
+
+/**
+ * Settings from an admin request body, or an error message
+ */
+export function parseLimitSettings(body: any): LimitSettings | string {
+  if (!body || typeof body !== 'object') return 'limits must be an object';
+  for (const key of ['messagesPerMinute', 'dailyTokenBudget', 'monthlySpendCapUsd'] as const) {
+    const value = body[key];
+    if (value !== undefined && value !== null && !(Number(value) > 0)) {
+      return `limits.${key} must be a positive number or null`;
+    }
+  }
+  if (body.alertThreshold !== undefined && !(Number(body.alertThreshold) > 0 && Number(body.alertThreshold) <= 1)) {
+    return 'limits.alertThreshold must be between 0 and 1';
+  }
+  return getLimitSettings({ limits: body });
+}
+
+// UTC periods used for budgets and alert de-duplication
+function periods(now: Date) {
+  const iso = now.toISOString();
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  return {
+    day: iso.slice(0, 10),
+    month: iso.slice(0, 7),
+    hour: iso.slice(0, 13),
+    dayStart,
+    monthStart,
+    nextDay: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000),
+    nextMonth: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+async function getAgentUsage(agentId: string, now: Date) {
+  const cached = usageCache.get(agentId);
+  if (cached && now.getTime() - cached.at < USAGE_CACHE_MS) return cached;
+
+  const { dayStart, monthStart } = periods(now);
+  const [daily, monthly] = await Promise.all([
+    getUsageTotals(agentId, dayStart, now),
+    getUsageTotals(agentId, monthStart, now),
+  ]);
+
+  const usage = {
+    at: now.getTime(),
+    dailyTokens: daily.inputTokens + daily.outputTokens,
+    monthlyCostUsd: monthly.costUsd,
+  };
+  usageCache.set(agentId, usage);
+  return usage;
+}
+
+/**
+ * Record an admin alert unless one of this kind was already raised for the period
+ */
+async function raiseAlert(agentId: string, kind: AlertKind, period: string, message: string) {
+  const key = `${agentId}|${kind}|${period}`;
+  if (raisedAlerts.has(key)) return;
+  raisedAlerts.add(key);
+
+  const rows = (await db
+    .insert(agentAlerts)
+    .values({ agentId, kind, period, message })
+    .onConflictDoNothing()
+    .returning()) as any[];
+  if (rows.length) console.warn(`[limits] ${agentId}: ${message}`);
+}
+
+// Take a slot in each key's one-minute window; returns seconds to wait when one is full
+function takeRateSlot(limits: [key: string, limit: number][], now: number): number {
+  const windows = limits.map(([key]) => (recentMessages.get(key) || []).filter((t) => t > now - RATE_WINDOW_MS));
+  const full = windows.filter((times, i) => times.length >= limits[i]![1]);
+  if (!full.length) windows.forEach((times) => times.push(now));
+  limits.forEach(([key], i) => recentMessages.set(key, windows[i]!));
+  return full.length
+    ? Math.max(...full.map((times) => Math.ceil((times[0]! + RATE_WINDOW_MS - now) / 1000)), 1)
+    : 0;
+}
+
+/**
+ * Per-IP limit for starting conversations and uploading files, or null when allowed
+ */
+export function checkRequestRate(kind: keyof typeof REQUEST_RATE_LIMITS, ip: string | undefined): LimitExceeded | null {
+  const retryAfter = takeRateSlot([[`${kind}|ip:${ip || 'unknown'}`, REQUEST_RATE_LIMITS[kind]]], Date.now());
+  if (!retryAfter) return null;
+  return {
+    code: 'rate_limited',
+    message: `Too many requests. Please wait ${retryAfter} second${retryAfter === 1 ? '' : 's'}.`,
+    retryAfter,
+  };
+}
+
+function secondsUntil(date: Date, now: Date): number {
+  return Math.max(Math.ceil((date.getTime() - now.getTime()) / 1000), 1);
+}
+
+/**
+ * Check the limits of the conversation's agent before generating a reply.
+ * Returns why the request is refused, or null when it may proceed. A request that
+ * proceeds counts towards the visitor's message rate.
+ */
+export async function checkChatLimits(conversationId: number, ip: string | undefined): Promise<LimitExceeded | null> {
+  const rows = (await db
+    .select({ conversation: conversations, agent: agents })
+    .from(conversations)
+    .innerJoin(agents, eq(conversations.agentId, agents.id))
+    .where(eq(conversations.id, conversationId))
+    .limit(1)) as any[];
+
+  // Unknown conversations are rejected by the route itself
+  if (!rows[0]) return null;
+  const { conversation, agent } = rows[0];
+  const settings = getLimitSettings(agent);
+  const now = new Date();
+  const period = periods(now);
+
+  if (settings.dailyTokenBudget || settings.monthlySpendCapUsd) {
+    const usage = await getAgentUsage(agent.id, now);
+
+    if (settings.dailyTokenBudget) {
+      const budget = settings.dailyTokenBudget;
+      if (usage.dailyTokens >= budget) {
+        await raiseAlert(
+          agent.id,
+          'daily_tokens_exceeded',
+          period.day,
+          `Daily token budget of ${budget.toLocaleString()} reached; chat is paused until midnight UTC.`
+        );
+        return {
+          code: 'daily_token_budget',
+          message: 'This assistant has reached its usage limit for today. Please try again tomorrow.',
+          retryAfter: secondsUntil(period.nextDay, now),
+        };
+      }
+      if (usage.dailyTokens >= budget * settings.alertThreshold) {
+        await raiseAlert(
+          agent.id,
+          'daily_tokens_warning',
+          period.day,
+          `${usage.dailyTokens.toLocaleString()} of the ${budget.toLocaleString()} daily token budget used.`
+        );
+      }
+    }
+
+    if (settings.monthlySpendCapUsd) {
+      const cap = settings.monthlySpendCapUsd;
+      if (usage.monthlyCostUsd >= cap) {
+        await raiseAlert(
+          agent.id,
+          'monthly_spend_exceeded',
+          period.month,
+          `Monthly spend cap of $${cap.toFixed(2)} reached; chat is paused until the next month.`
+        );
+        return {
+          code: 'monthly_spend_cap',
+          message: 'This assistant has reached its usage limit for this month.',
+          retryAfter: secondsUntil(period.nextMonth, now),
+        };
+      }
+      if (usage.monthlyCostUsd >= cap * settings.alertThreshold) {
+        await raiseAlert(
+          agent.id,
+          'monthly_spend_warning',
+          period.month,
+          `$${usage.monthlyCostUsd.toFixed(2)} of the $${cap.toFixed(2)} monthly spend cap used.`
+        );
+      }
+    }
+  }
+
+  if (settings.messagesPerMinute) {
+    const limit = settings.messagesPerMinute;
+    const address = `ip:${ip || 'unknown'}`;
+    // External user ids are chosen by the client, so the IP is part of the visitor's key
+    const visitor = `${address}|user:${conversation.externalUserId || ''}`;
+    const retryAfter = takeRateSlot(
+      [
+        [`${agent.id}|${visitor}`, limit],
+        [`${agent.id}|${address}`, limit * VISITORS_PER_IP],
+      ],
+      now.getTime()
+    );
+    if (retryAfter) {
+      await raiseAlert(
+        agent.id,
+        'rate_limited',
+        period.hour,
+        `A visitor (${visitor}) was rate-limited at ${limit} messages per minute.`
+      );
+      return {
+        code: 'rate_limited',
+        message: `You're sending messages too quickly. Please wait ${retryAfter} second${retryAfter === 1 ? '' : 's'}.`,
+        retryAfter,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * An agent's alerts, newest first
+ */
+export async function getAlerts(agentId: string, limit = 50) {
+  const [items, unacknowledged] = await Promise.all([
+    db
+      .select()
+      .from(agentAlerts)
+      .where(eq(agentAlerts.agentId, agentId))
+      .orderBy(desc(agentAlerts.createdAt))
+      .limit(limit),
+    db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(agentAlerts)
+      .where(and(eq(agentAlerts.agentId, agentId), isNull(agentAlerts.acknowledgedAt))),
+  ]);
+  return { alerts: items, unacknowledged: unacknowledged[0]?.count || 0 };
+}
+
+export async function acknowledgeAlert(agentId: string, alertId: number) {
+  const rows = (await db
+    .update(agentAlerts)
+    .set({ acknowledgedAt: new Date() })
+    .where(and(eq(agentAlerts.id, alertId), eq(agentAlerts.agentId, agentId)))
+    .returning()) as any[];
+  return rows[0] || null;
+}
+
+// Forget visitors whose window has passed and alerts from earlier periods
+setInterval(() => {
+  const cutoff = Date.now() - RATE_WINDOW_MS;
+  for (const [key, times] of recentMessages) {
+    if (!times.some((t) => t > cutoff)) recentMessages.delete(key);
+  }
+  const { month, day, hour } = periods(new Date());
+  for (const key of raisedAlerts) {
+    const period = key.slice(key.lastIndexOf('|') + 1);
+    if (period !== month && period !== day && period !== hour) raisedAlerts.delete(key);
+  }
+}, RATE_WINDOW_MS).unref();
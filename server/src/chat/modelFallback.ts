@@ -0,0 +1,226 @@
+/**
+ * Model Fallback
+ *
+ * The model calls behind a reply go through a chain: the reply's model first, then the
+ * agent's fallback models in order (e.g. Claude Sonnet → Gemini Flash → Grok). Transient
+ * errors (rate limits, overloads, timeouts) are retried with exponential backoff; a model
+ * that keeps failing, or fails for another reason, hands over to the next one. Models
+ * whose provider's circuit (for the agent's API key) is open are skipped, except the last
+ * in the chain.
+ *
+ * Once reply text has been streamed to the client a failure is no longer retried, since
+ * the client already shows the partial answer. The model that answered is stored on the
+ * assistant message, along with the failed attempts.
+ */
+
+import { isModelEnabled, resolveAgentProvider } from '../llm';
+import { isCircuitOpen, isTransientError, recordProviderFailure, recordProviderSuccess } from '../llm/circuitBreaker';
+import { LLMProvider } from '../llm/types';
+import { ReplyError } from './replyPipeline';
+
+export const MAX_FALLBACK_MODELS = 3;
+export const MAX_RETRIES = 5;
+
+// Per-agent settings, stored in ai_agents.model_fallback
+export interface FallbackSettings {
+  // Tried in order after the reply's model
+  models: string[];
+  // Extra attempts per model on transient errors
+  retries: number;
+  // Wait before the first retry; doubled for each one after
+  backoffMs: number;
+  // Longest wait for a streamed call's first event (text, thinking or a tool call).
+  // Calls that are not streamed have no timeout, since their length depends on the answer
+  timeoutMs: number;
+}
+
+export const DEFAULT_FALLBACK_SETTINGS: FallbackSettings = {
+  models: [],
+  retries: 2,
+  backoffMs: 1000,
+  timeoutMs: 60000,
+};
+
+const BACKOFF_RANGE = { min: 100, max: 30000 };
+const TIMEOUT_RANGE = { min: 5000, max: 600000 };
+
+export interface FallbackAttempt {
+  model: string;
+  error: string;
+}
+
+function inRange(value: unknown, range: { min: number; max: number }): number | null {
+  const n = Math.round(Number(value));
+  return n >= range.min && n <= range.max ? n : null;
+}
+
+export function getFallbackSettings(agent: any): FallbackSettings {
+  const stored = (agent?.modelFallback || {}) as Partial<FallbackSettings>;
+  const retries = Math.round(Number(stored.retries));
+  const models = Array.isArray(stored.models)
+    ? [...new Set(stored.models.filter((m): m is string => typeof m === 'string' && !!m.trim()).map((m) => m.trim()))]
+    : [];
+  return {
+    models: models.slice(0, MAX_FALLBACK_MODELS),
+    retries: retries >= 0 && retries <= MAX_RETRIES ? retries : DEFAULT_FALLBACK_SETTINGS.retries,
+    backoffMs: inRange(stored.backoffMs, BACKOFF_RANGE) ?? DEFAULT_FALLBACK_SETTINGS.backoffMs,
+    timeoutMs: inRange(stored.timeoutMs, TIMEOUT_RANGE) ?? DEFAULT_FALLBACK_SETTINGS.timeoutMs,
+  };
+}
+
+/**
+ * Settings from an admin request body, or an error message
+ */
+export function parseFallbackSettings(body: any): FallbackSettings | string {
+  if (!body || typeof body !== 'object') return 'modelFallback must be an object';
+  if (body.models !== undefined) {
+    if (!Array.isArray(body.models) || body.models.some((m: unknown) => typeof m !== 'string')) {
+      return 'modelFallback.models must be an array of model ids';
+    }
+    if (body.models.length > MAX_FALLBACK_MODELS) {
+      return `modelFallback.models can list at most ${MAX_FALLBACK_MODELS} models`;
+    }
+  }
+  if (body.retries !== undefined) {
+    const retries = Number(body.retries);
+    if (!Number.isInteger(retries) || retries < 0 || retries > MAX_RETRIES) {
+      return `modelFallback.retries must be between 0 and ${MAX_RETRIES}`;
+    }
+  }
+  if (body.backoffMs !== undefined && inRange(body.backoffMs, BACKOFF_RANGE) === null) {
+    return `modelFallback.backoffMs must be between ${BACKOFF_RANGE.min} and ${BACKOFF_RANGE.max}`;
+  }
+  if (body.timeoutMs !== undefined && inRange(body.timeoutMs, TIMEOUT_RANGE) === null) {
+    return `modelFallback.timeoutMs must be between ${TIMEOUT_RANGE.min} and ${TIMEOUT_RANGE.max}`;
+  }
+  return getFallbackSettings({ modelFallback: body });
+}
+
+// Resolves early when `signal` aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+function describeError(err: any): string {
+  const status = Number(err?.status);
+  const message = String(err?.message || err).slice(0, 200);
+  return status ? `${status} ${message}` : message;
+}
+
+/**
+ * The models a reply may be generated with, and which of them is currently answering.
+ * A chain is sticky: after falling back, later calls (e.g. further tool steps) start from
+ * the model that last succeeded.
+ */
+export class ModelChain {
+  readonly attempts: FallbackAttempt[] = [];
+  private models: string[];
+  private index = 0;
+  private outputStarted = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private agentId: string,
+    model: string,
+    private settings: FallbackSettings,
+    private signal?: AbortSignal
+  ) {
+    this.models = [model, ...settings.models.filter((m) => m !== model && isModelEnabled(m))];
+  }
+
+  // The model that answered the last call, or is tried first by the next one
+  get model(): string {
+    return this.models[this.index]!;
+  }
+
+  // Called for every event the provider streams; the model is answering, so stop timing it
+  markActivity(): void {
+    this.clearTimer();
+  }
+
+  // Called when output reaches the client; from then on the call is not retried or timed out
+  markOutput(): void {
+    this.outputStarted = true;
+    this.clearTimer();
+  }
+
+  /**
+   * Run a model call, retrying and falling back as configured. `call` must pass the
+   * given signal to the provider so timed-out attempts are cancelled. Streamed calls
+   * time out when no event arrives within `timeoutMs`; the caller reports events
+   * with `markActivity`.
+   */
+  async call<T>(
+    call: (provider: LLMProvider, model: string, signal: AbortSignal) => Promise<T>,
+    { streamed }: { streamed: boolean }
+  ): Promise<T> {
+    this.outputStarted = false;
+    let lastError: unknown = null;
+    let lastTransient = false;
+
+    for (let i = this.index; i < this.models.length; i++) {
+      const model = this.models[i]!;
+      const { provider, endpoint } = await resolveAgentProvider(model, this.agentId);
+      if (isCircuitOpen(endpoint) && i < this.models.length - 1) {
+        this.attempts.push({ model, error: `${endpoint.provider} circuit open` });
+        continue;
+      }
+
+      for (let attempt = 0; attempt <= this.settings.retries; attempt++) {
+        if (attempt > 0) await sleep(this.settings.backoffMs * 2 ** (attempt - 1), this.signal);
+        if (this.signal?.aborted) throw lastError || new Error('Reply aborted');
+
+        const controller = new AbortController();
+        const abort = () => controller.abort();
+        this.signal?.addEventListener('abort', abort, { once: true });
+        let timedOut = false;
+        if (streamed) {
+          this.timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, this.settings.timeoutMs);
+        }
+
+        try {
+          const result = await call(provider, model, controller.signal);
+          recordProviderSuccess(endpoint);
+          this.index = i;
+          return result;
+        } catch (err) {
+          // The caller handles its own cancellation; streamed output cannot be taken back
+          if (this.signal?.aborted || this.outputStarted) throw err;
+
+          lastError = timedOut ? new Error(`No response within ${this.settings.timeoutMs}ms`) : err;
+          lastTransient = timedOut || isTransientError(err);
+          if (lastTransient) recordProviderFailure(endpoint, this.agentId);
+          this.attempts.push({ model, error: describeError(lastError) });
+          console.warn(`[chat] ${model} failed (attempt ${attempt + 1}): ${describeError(lastError)}`);
+
+          if (!lastTransient) break;
+        } finally {
+          this.clearTimer();
+          this.signal?.removeEventListener('abort', abort);
+        }
+      }
+    }
+
+    // Outages are reported as such; anything else is a bug or a configuration error
+    if (lastTransient || !lastError) {
+      throw new ReplyError('The assistant is temporarily unavailable. Please try again in a moment.', 503);
+    }
+    throw lastError;
+  }
+
+  private clearTimer(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * Reply Pipeline
+ *
+ * Single code path for producing an assistant reply, shared by the JSON and SSE chat routes.
+ * A reply runs through fixed phases in order; each phase holds any number of named stages
+ * that read and mutate a shared ReplyContext:
+ *
+ *   load → preProcess → retrieval → prompt → model → postProcess → persist
+ *
+ * New behaviour (moderation, tool use, summarisation, ...) is added by registering a stage
+ * with `replyPipeline.use(phase, stage)` rather than editing the routes.
+ */
+
+import { LLMImage, LLMMessage, LLMToolDefinition, LLMUsage } from '../llm/types';
+import { ToolCallRecord } from './toolUse';
+import { RetrievalContext } from './retrievalContext';
+import { Citation } from './citations';
+
+// Thrown by stages for request problems the caller can fix; routes map `status` to the HTTP response
+export class ReplyError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'ReplyError';
+  }
+}
+
+export interface ReplySource {
+  id: number;
+  content: string;
+  sourceTitle: string;
+}
+
+// Progress reported to streaming callers alongside the reply text
+export type ReplyEvent =
+  | { event: 'sources'; sources: ReplySource[] }
+  | { event: 'tool_call'; id: string; name: string; arguments: Record<string, unknown> }
+  | { event: 'tool_result'; id: string; server: string; tool: string; success: boolean; error?: string | undefined }
+  | { event: 'usage'; inputTokens: number; outputTokens: number }
+  | { event: 'suggestions'; suggestions: string[] };
+
+export type ReplyPhase = 'load' | 'preProcess' | 'retrieval' | 'prompt' | 'model' | 'postProcess' | 'persist';
+
+export const REPLY_PHASES: ReplyPhase[] = [
+  'load',
+  'preProcess',
+  'retrieval',
+  'prompt',
+  'model',
+  'postProcess',
+  'persist',
+];
+
+export interface ReplyContext {
+  conversationId: number;
+  userMessage: string;
+  // Model the caller asked for; validated against the agent's allowed models
+  requestedModel?: string | undefined;
+  // Message the new user turn follows; undefined continues the active branch
+  parentId?: number | null | undefined;
+  // Existing user message to answer again instead of storing a new one (regenerate)
+  replyTo?: number | undefined;
+  // Stored user turn this reply answers, set in the 'load' phase
+  userMessageId: number | null;
+  // Uploads to link to the new user turn
+  attachmentIds: number[];
+  // Attachments of the user turn, and its images as model input
+  attachments: any[];
+  images: LLMImage[];
+  // Loaded by the 'load' phase
+  conversation: any;
+  history: any[]; // persisted messages from before this turn
+  agent: any;
+  agentId: string;
+  model: string;
+  // System prompt sections, joined when the prompt is built
+  instructions: string[];
+  retrieval: RetrievalContext;
+  tools: LLMToolDefinition[];
+  prompt: LLMMessage[];
+  reply: string;
+  // Validated `[n]` markers in the reply, set in the 'postProcess' phase
+  citations: Citation[];
+  // Follow-up questions offered after the reply, set in the 'postProcess' phase
+  suggestions: string[];
+  toolCalls: ToolCallRecord[];
+  // Token counts summed over every model call, when the provider reports them
+  usage: LLMUsage | null;
+  // Cost of those calls, each priced at its own model's rate; null when none has a price
+  costUsd: number | null;
+  // Wall time of the 'model' phase, set once it has run
+  latencyMs: number | null;
+  // Merged into the persisted assistant message metadata
+  metadata: Record<string, unknown>;
+  // Id of the stored assistant message, set in the 'persist' phase
+  messageId: number | null;
+  // Set when the caller is streaming; receives reply text as it is generated
+  onDelta?: ((delta: string) => void) | undefined;
+  // Set when the caller is streaming; receives sources, tool activity and usage
+  onEvent?: ((event: ReplyEvent) => void) | undefined;
+  // Aborted when the caller stops listening; the model call is cancelled
+  signal?: AbortSignal | undefined;
+  // Set when the reply was cut short by `signal`; the partial reply is still persisted
+  interrupted: boolean;
+  // Phases a stage has ruled out for this reply (e.g. a stage that answers by itself skips 'model')
+  skipPhases: ReplyPhase[];
+}
+
+export interface ReplyStage {
+  name: string;
+  run(ctx: ReplyContext): Promise<void> | void;
+}
+
+export interface ReplyOptions {
+  model?: string | undefined;
+  parentId?: number | null | undefined;
+  replyTo?: number | undefined;
+  attachmentIds?: number[] | undefined;
+  onDelta?: (delta: string) => void;
+  onEvent?: (event: ReplyEvent) => void;
+  signal?: AbortSignal | undefined;
+}
+
+export interface ReplyResult {
+  userMessageId: number | null;
+  messageId: number | null;
+  reply: string;
+  model: string;
+  sources: ReplySource[];
+  citations: Citation[];
+  suggestions: string[];
+  toolCalls: ToolCallRecord[];
+  usage: LLMUsage | null;
+  metadata: Record<string, unknown>;
+  interrupted: boolean;
+  // Conversation status after the reply: bot | pending_human | human | closed
+  conversationStatus: string;
+}
+
+export class ReplyPipeline {
+  private stages = new Map<ReplyPhase, ReplyStage[]>(REPLY_PHASES.map((phase) => [phase, []]));
+
+  // Append a stage to a phase; stages in a phase run in registration order
+  use(phase: ReplyPhase, stage: ReplyStage): this {
+    this.stages.get(phase)!.push(stage);
+    return this;
+  }
+
+  getStages(phase: ReplyPhase): ReplyStage[] {
+    return [...(this.stages.get(phase) || [])];
+  }
+
+  async run(conversationId: number, userMessage: string, options: ReplyOptions = {}): Promise<ReplyResult> {
+    const ctx: ReplyContext = {
+      conversationId,
+      userMessage,
+      requestedModel: options.model,
+      parentId: options.parentId,
+      replyTo: options.replyTo,
+      userMessageId: null,
+      attachmentIds: options.attachmentIds || [],
+      attachments: [],
+      images: [],
+      conversation: null,
+      history: [],
+      agent: null,
+      agentId: '',
+      model: '',
+      instructions: [],
+      retrieval: { sources: [], retrieved: [] },
+      tools: [],
+      prompt: [],
+      reply: '',
+      citations: [],
+      suggestions: [],
+      toolCalls: [],
+      usage: null,
+      costUsd: null,
+      latencyMs: null,
+      metadata: {},
+      messageId: null,
+      onDelta: options.onDelta,
+      onEvent: options.onEvent,
+      signal: options.signal,
+      interrupted: false,
+      skipPhases: [],
+    };
+
+    const toSources = () =>
+      ctx.retrieval.retrieved.map((s) => ({ id: s.id, content: s.content, sourceTitle: s.sourceTitle }));
+
+    for (const phase of REPLY_PHASES) {
+      if (ctx.skipPhases.includes(phase)) continue;
+
+      const startedAt = Date.now();
+      for (const stage of this.stages.get(phase) || []) {
+        await stage.run(ctx);
+      }
+      if (phase === 'model') ctx.latencyMs = Date.now() - startedAt;
+
+      // Report phase results as soon as they are known, whichever stages produced them
+      if (phase === 'retrieval') {
+        ctx.onEvent?.({ event: 'sources', sources: toSources() });
+      } else if (phase === 'model' && ctx.usage) {
+        ctx.onEvent?.({ event: 'usage', ...ctx.usage });
+      }
+    }
+
+    return {
+      userMessageId: ctx.userMessageId,
+      messageId: ctx.messageId,
+      reply: ctx.reply,
+      model: ctx.model,
+      sources: toSources(),
+      citations: ctx.citations,
+      suggestions: ctx.suggestions,
+      toolCalls: ctx.toolCalls,
+      usage: ctx.usage,
+      metadata: ctx.metadata,
+      interrupted: ctx.interrupted,
+      conversationStatus: (ctx.conversation?.status as string | undefined) || 'bot',
+    };
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Reply Streams
+ *
+ * Buffers the events of each in-flight reply so a client that loses its connection can
+ * reconnect and pick up where it left off. Every event gets an id of the form
+ * `<streamId>:<seq>`; resuming with the last id a client saw replays the events after it
+ * and then follows the live reply.
+ *
+ * A reply keeps running while nobody is listening, for up to RESUME_WINDOW_MS, before it
+ * is aborted. Finished streams stay resumable for RETENTION_MS so a client that dropped
+ * just before the end still receives it.
+ */
+
+import { randomUUID } from 'crypto';
+import { ReplyError, ReplyOptions, ReplyResult } from './replyPipeline';
+
+const RESUME_WINDOW_MS = 30 * 1000;
+const RETENTION_MS = 60 * 1000;
+
+export interface StreamEvent {
+  id: string;
+  payload: Record<string, unknown>;
+  // Last event of the stream ('end' or 'error')
+  final: boolean;
+}
+
+type StreamListener = (event: StreamEvent) => void;
+
+// Streaming hooks a transport hands to the reply it runs
+export type ReplyStreamHooks = Required<Pick<ReplyOptions, 'onDelta' | 'onEvent' | 'signal'>>;
+
+export class ReplyStream {
+  readonly id = randomUUID().slice(0, 8);
+  readonly startedAt = Date.now();
+  ended = false;
+
+  private events: StreamEvent[] = [];
+  private listeners = new Set<StreamListener>();
+  private controller = new AbortController();
+  private abortTimer: NodeJS.Timeout | null = null;
+
+  constructor(readonly conversationId: number) {}
+
+  // Aborted when the reply is stopped or abandoned
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  push(payload: Record<string, unknown>) {
+    this.emit(payload, false);
+  }
+
+  // Send the last event; later pushes are ignored
+  finish(payload: Record<string, unknown>) {
+    this.emit(payload, true);
+    this.clearAbortTimer();
+    setTimeout(() => {
+      if (streams.get(this.id) === this) streams.delete(this.id);
+    }, RETENTION_MS).unref();
+  }
+
+  stop() {
+    if (!this.ended) this.controller.abort();
+  }
+
+  /**
+   * Replay the events after `lastEventId` (all of them when it is not from this stream),
+   * then deliver new events as they are pushed. Returns the unsubscribe function.
+   */
+  subscribe(lastEventId: string | undefined, listener: StreamListener): () => void {
+    const [streamId, seq] = (lastEventId || '').split(':');
+    const from = streamId === this.id ? Number(seq) || 0 : 0;
+
+    for (const event of this.events.slice(from)) listener(event);
+
+    if (this.ended) return () => {};
+
+    this.listeners.add(listener);
+    this.clearAbortTimer();
+
+    return () => {
+      if (!this.listeners.delete(listener)) return;
+      if (!this.listeners.size && !this.ended) {
+        this.abortTimer = setTimeout(() => this.controller.abort(), RESUME_WINDOW_MS);
+        this.abortTimer.unref();
+      }
+    };
+  }
+
+  private emit(payload: Record<string, unknown>, final: boolean) {
+    if (this.ended) return;
+    this.ended = final;
+
+    const event: StreamEvent = { id: `${this.id}:${this.events.length + 1}`, payload, final };
+    this.events.push(event);
+
+    for (const listener of this.listeners) listener(event);
+    if (final) this.listeners.clear();
+  }
+
+  private clearAbortTimer() {
+    if (this.abortTimer) clearTimeout(this.abortTimer);
+    this.abortTimer = null;
+  }
+}
+
+const streams = new Map<string, ReplyStream>();
+
+/**
+ * Start a reply in the background and buffer its events. Transports (SSE, WebSocket)
+ * subscribe to the returned stream; all of them see the same event vocabulary:
+ * start, sources, delta, tool_call, tool_result, usage, then end or error.
+ */
+export function runReplyStream(
+  conversationId: number,
+  run: (hooks: ReplyStreamHooks) => Promise<ReplyResult>
+): ReplyStream {
+  const stream = new ReplyStream(conversationId);
+  streams.set(stream.id, stream);
+
+  // Initial event to confirm stream open
+  stream.push({ event: 'start', streamId: stream.id });
+
+  run({
+    onDelta: (delta) => stream.push({ event: 'delta', delta }),
+    onEvent: (event) => stream.push(event),
+    signal: stream.signal,
+  }).then(
+    (result) =>
+      stream.finish({
+        event: 'end',
+        userMessageId: result.userMessageId,
+        messageId: result.messageId,
+        full: result.reply,
+        model: result.model,
+        sources: result.sources,
+        citations: result.citations,
+        interrupted: result.interrupted,
+        conversationStatus: result.conversationStatus,
+      }),
+    (err) => {
+      const status = err instanceof ReplyError ? err.status : 500;
+      const error = err instanceof ReplyError ? err.message : 'Failed to stream message';
+      if (status === 500) console.error(err);
+      stream.finish({ event: 'error', status, error });
+    }
+  );
+
+  return stream;
+}
+
+/**
+ * Stream to resume for a conversation: the one `lastEventId` belongs to, otherwise the
+ * most recent one
+ */
+export function findReplyStream(conversationId: number, lastEventId?: string): ReplyStream | null {
+  const byId = lastEventId ? streams.get(lastEventId.split(':')[0] || '') : undefined;
+  if (byId && byId.conversationId === conversationId) return byId;
+
+  let latest: ReplyStream | null = null;
+  for (const stream of streams.values()) {
+    if (stream.conversationId !== conversationId) continue;
+    if (!latest || stream.startedAt >= latest.startedAt) latest = stream;
+  }
+  return latest;
+}
+
+/**
+ * Abort the conversation's in-flight replies. Returns how many were stopped.
+ */
+export function stopReplyStreams(conversationId: number, streamId?: string): number {
+  let stopped = 0;
+  for (const stream of streams.values()) {
+    if (stream.conversationId !== conversationId || stream.ended) continue;
+    if (streamId && stream.id !== streamId) continue;
+    stream.stop();
+    stopped++;
+  }
+  return stopped;
+}
@@ -0,0 +1,109 @@
+/**
+ * Follow-up Suggestions
+ *
+ * After a reply, the model proposes a few questions the user might ask next, grounded in
+ * the sources the reply was built from. They are sent to the widget as a `suggestions`
+ * event, shown as clickable chips, and stored on the assistant message.
+ */
+
+import { getProviderForAgent } from '../llm';
+import { LLMUsage } from '../llm/types';
+import { ContextSource } from './retrievalContext';
+
+export const MIN_SUGGESTIONS = 2;
+export const MAX_SUGGESTIONS = 4;
+
+// Longest suggestion kept; anything longer is not a chip-sized question
+const MAX_SUGGESTION_LENGTH = 120;
+
+// Source text sent to the model; suggestions only need the gist
+const MAX_SOURCE_CHARS = 1500;
+
+// Per-agent settings, stored in ai_agents.suggestions
+export interface SuggestionSettings {
+  enabled: boolean;
+  count: number;
+}
+
+export const DEFAULT_SUGGESTION_SETTINGS: SuggestionSettings = {
+  enabled: false,
+  count: 3,
+};
+
+export function getSuggestionSettings(agent: any): SuggestionSettings {
+  const stored = (agent?.suggestions || {}) as Partial<SuggestionSettings>;
+  const count = Math.round(Number(stored.count));
+  return {
+    enabled: stored.enabled === true,
+    count: count >= MIN_SUGGESTIONS && count <= MAX_SUGGESTIONS ? count : DEFAULT_SUGGESTION_SETTINGS.count,
+  };
+}
+
+/**
+ * Settings from an admin request body, or an error message
+ */
+export function parseSuggestionSettings(body: any): SuggestionSettings | string {
+  if (!body || typeof body !== 'object') return 'suggestions must be an object';
+  if (body.count !== undefined) {
+    const count = Number(body.count);
+    if (!Number.isInteger(count) || count < MIN_SUGGESTIONS || count > MAX_SUGGESTIONS) {
+      return `suggestions.count must be between ${MIN_SUGGESTIONS} and ${MAX_SUGGESTIONS}`;
+    }
+  }
+  return getSuggestionSettings(body);
+}
+
+// One question per line; drop list markers and quotes the model adds anyway
+function parseSuggestions(text: string, count: number): string[] {
+  const seen = new Set<string>();
+  const suggestions: string[] = [];
+
+  for (const line of text.split('\n')) {
+    const question = line
+      .replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '')
+      .replace(/^["'“]|["'”]$/g, '')
+      .trim();
+    if (!question || question.length > MAX_SUGGESTION_LENGTH) continue;
+
+    const key = question.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    suggestions.push(question);
+    if (suggestions.length >= count) break;
+  }
+
+  return suggestions;
+}
+
+/**
+ * Ask the model for follow-up questions to a reply, answerable from its sources
+ */
+export async function generateSuggestions(
+  agentId: string,
+  model: string,
+  question: string,
+  reply: string,
+  sources: ContextSource[],
+  count: number
+): Promise<{ suggestions: string[]; usage?: LLMUsage | undefined }> {
+  const sourceText = sources
+    .map((s) => `[${s.id}] ${s.sourceTitle}\n${s.content.slice(0, MAX_SOURCE_CHARS)}`)
+    .join('\n\n');
+
+  const provider = await getProviderForAgent(model, agentId);
+  const response = await provider.generate(
+    [
+      {
+        role: 'system',
+        content: `Suggest ${count} short follow-up questions the user might ask next. Each must be answerable from the sources below and must not repeat what the reply already answered. Write them as the user would, one per line, with no numbering or preamble.\n\nSources:\n${sourceText}`,
+      },
+      {
+        role: 'user',
+        content: `Question: ${question}\n\nReply: ${reply}`,
+      },
+    ],
+    { model, maxTokens: 200 }
+  );
+
+  return { suggestions: parseSuggestions(response.content, count), usage: response.usage };
+}
@@ -0,0 +1,68 @@
+/**
+ * Tool Use
+ *
+ * Bridges MCP Hub tools to the provider-neutral LLM tool-calling interface
+ */
+
+import { getOrchestrator } from '../mcp-hub';
+import { LLMToolCall, LLMToolDefinition } from '../llm/types';
+
+// Maximum model round-trips per reply before a final answer is forced
+export const MAX_TOOL_STEPS = 5;
+
+// Tool results are fed back into the prompt, so keep large API payloads bounded
+const MAX_TOOL_RESULT_CHARS = 20000;
+
+// Provider tool names must match ^[a-zA-Z0-9_-]{1,64}$, so '.' cannot be used
+const NAME_SEPARATOR = '__';
+
+export interface ToolCallRecord {
+  server: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Expose every tool registered on the MCP Hub as an LLM tool definition
+ */
+export function getToolDefinitions(): LLMToolDefinition[] {
+  return getOrchestrator()
+    .getAllTools()
+    .map((tool) => {
+      const { $schema, ...inputSchema } = tool.inputSchema;
+      return {
+        name: `${tool.server}${NAME_SEPARATOR}${tool.name}`,
+        description: tool.description,
+        inputSchema,
+      };
+    });
+}
+
+/**
+ * Execute a model-requested tool call on the MCP Hub.
+ * Failures are returned as content so the model can recover instead of the reply failing.
+ */
+export async function executeToolCall(call: LLMToolCall): Promise<{ content: string; record: ToolCallRecord }> {
+  const separatorIndex = call.name.indexOf(NAME_SEPARATOR);
+  const server = separatorIndex > 0 ? call.name.slice(0, separatorIndex) : call.name;
+  const tool = separatorIndex > 0 ? call.name.slice(separatorIndex + NAME_SEPARATOR.length) : '';
+
+  const response = await getOrchestrator().executeAction(server, tool, call.arguments);
+
+  const record: ToolCallRecord = { server, tool, arguments: call.arguments, success: response.success };
+  if (response.error) {
+    record.error = response.error;
+  }
+
+  let content = response.success
+    ? JSON.stringify(response.data ?? null)
+    : JSON.stringify({ error: response.error || 'Tool execution failed' });
+
+  if (content.length > MAX_TOOL_RESULT_CHARS) {
+    content = `${content.slice(0, MAX_TOOL_RESULT_CHARS)}... [truncated]`;
+  }
+
+  return { content, record };
+}
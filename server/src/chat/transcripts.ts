@@ -0,0 +1,256 @@
+/**
+ * Transcripts
+ *
+ * Admin-side access to stored conversations: filtered, paginated listing per agent,
+ * full transcripts, and export as JSON, CSV or Markdown.
+ */
+
+import { db } from '../db/client';
+import { conversations, messages } from '../db/schema';
+import { and, asc, desc, eq, gte, inArray, lt, sql, SQL } from 'drizzle-orm';
+
+// Upper bound for bulk exports so one request cannot dump an entire tenant
+export const MAX_EXPORT_CONVERSATIONS = 500;
+
+export type TranscriptFormat = 'json' | 'csv' | 'markdown';
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['json', 'csv', 'markdown'];
+
+export interface ConversationFilters {
+  externalUserId?: string | undefined;
+  from?: Date | undefined; // inclusive
+  to?: Date | undefined; // exclusive
+  search?: string | undefined; // full-text match on message content
+  topic?: string | undefined; // generated topic label
+}
+
+export interface Transcript {
+  conversation: any;
+  messages: any[];
+}
+
+function buildConditions(agentId: string, filters: ConversationFilters): SQL | undefined {
+  const conditions: SQL[] = [eq(conversations.agentId, agentId)];
+
+  if (filters.externalUserId) {
+    conditions.push(eq(conversations.externalUserId, filters.externalUserId));
+  }
+  if (filters.from) {
+    conditions.push(gte(conversations.createdAt, filters.from));
+  }
+  if (filters.to) {
+    conditions.push(lt(conversations.createdAt, filters.to));
+  }
+  if (filters.topic) {
+    conditions.push(sql`${conversations.topics} ? ${filters.topic}`);
+  }
+  if (filters.search) {
+    conditions.push(sql`EXISTS (
+      SELECT 1 FROM ai_messages m
+      WHERE m.conversation_id = ${conversations.id}
+        AND to_tsvector('simple', m.content) @@ plainto_tsquery('simple', ${filters.search})
+    )`);
+  }
+
+  return and(...conditions);
+}
+
+/**
+ * One page of an agent's conversations, newest first, with message counts, tokens and cost
+ */
+export async function listConversations(
+  agentId: string,
+  filters: ConversationFilters,
+  page = 1,
+  pageSize = 25
+): Promise<{ conversations: any[]; total: number }> {
+  const where = buildConditions(agentId, filters);
+
+  const countRows = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(conversations)
+    .where(where);
+
+  const rows = await db
+    .select({
+      id: conversations.id,
+      externalUserId: conversations.externalUserId,
+      title: conversations.title,
+      topics: conversations.topics,
+      createdAt: conversations.createdAt,
+      updatedAt: conversations.updatedAt,
+      messageCount: sql<number>`(SELECT count(*)::int FROM ai_messages m WHERE m.conversation_id = ${conversations.id})`,
+      lastMessageAt: sql<string | null>`(SELECT max(m.created_at) FROM ai_messages m WHERE m.conversation_id = ${conversations.id})`,
+      totalTokens: sql<number>`(SELECT coalesce(sum((m.metadata->'usage'->>'inputTokens')::int + (m.metadata->'usage'->>'outputTokens')::int), 0)::int FROM ai_messages m WHERE m.conversation_id = ${conversations.id})`,
+      costUsd: sql<number>`(SELECT coalesce(sum((m.metadata->>'costUsd')::numeric), 0)::float8 FROM ai_messages m WHERE m.conversation_id = ${conversations.id})`,
+    })
+    .from(conversations)
+    .where(where)
+    .orderBy(desc(conversations.createdAt))
+    .limit(pageSize)
+    .offset((page - 1) * pageSize);
+
+  return { conversations: rows, total: countRows[0]?.count || 0 };
+}
+
+/**
+ * Full transcripts for conversations of this agent, oldest message first
+ */
+export async function getTranscripts(agentId: string, conversationIds: number[]): Promise<Transcript[]> {
+  if (!conversationIds.length) return [];
+
+  const convRows = (await db
+    .select()
+    .from(conversations)
+    .where(and(eq(conversations.agentId, agentId), inArray(conversations.id, conversationIds)))
+    .orderBy(desc(conversations.createdAt))) as any[];
+
+  if (!convRows.length) return [];
+
+  const msgRows = (await db
+    .select()
+    .from(messages)
+    .where(inArray(messages.conversationId, convRows.map((c) => c.id as number)))
+    .orderBy(asc(messages.id))) as any[];
+
+  return convRows.map((conversation) => ({
+    conversation,
+    messages: msgRows.filter((m) => m.conversationId === conversation.id),
+  }));
+}
+
+/**
+ * Transcripts of every conversation matching the filters, capped at MAX_EXPORT_CONVERSATIONS
+ */
+export async function getFilteredTranscripts(agentId: string, filters: ConversationFilters): Promise<Transcript[]> {
+  const idRows = await db
+    .select({ id: conversations.id })
+    .from(conversations)
+    .where(buildConditions(agentId, filters))
+    .orderBy(desc(conversations.createdAt))
+    .limit(MAX_EXPORT_CONVERSATIONS);
+
+  return getTranscripts(agentId, idRows.map((r) => r.id));
+}
+
+function toIso(value: unknown): string {
+  return value ? new Date(value as string).toISOString() : '';
+}
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatJson(transcripts: Transcript[]): string {
+  const data = transcripts.map(({ conversation, messages: msgs }) => ({
+    id: conversation.id,
+    agentId: conversation.agentId,
+    externalUserId: conversation.externalUserId,
+    title: conversation.title,
+    topics: conversation.topics || [],
+    createdAt: toIso(conversation.createdAt),
+    messages: msgs.map((m) => ({
+      id: m.id,
+      role: m.role,
+      content: m.content,
+      createdAt: toIso(m.createdAt),
+      model: m.metadata?.model || null,
+      citations: m.metadata?.citations || [],
+      toolCalls: m.metadata?.toolCalls || [],
+    })),
+  }));
+  return JSON.stringify(data, null, 2);
+}
+
+// One row per message so the file opens cleanly in spreadsheets
+function formatCsv(transcripts: Transcript[]): string {
+  const header = [
+    'conversation_id',
+    'external_user_id',
+    'conversation_title',
+    'conversation_topics',
+    'message_id',
+    'role',
+    'created_at',
+    'model',
+    'content',
+  ];
+  const lines = [header.join(',')];
+
+  for (const { conversation, messages: msgs } of transcripts) {
+    for (const m of msgs) {
+      lines.push(
+        [
+          conversation.id,
+          conversation.externalUserId,
+          conversation.title,
+          (conversation.topics || []).join('; '),
+          m.id,
+          m.role,
+          toIso(m.createdAt),
+          m.metadata?.model,
+          m.content,
+        ]
+          .map(csvCell)
+          .join(',')
+      );
+    }
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+function formatMarkdown(transcripts: Transcript[]): string {
+  return transcripts
+    .map(({ conversation, messages: msgs }) => {
+      const lines = [`# Conversation ${conversation.id}${conversation.title ? `: ${conversation.title}` : ''}`, ''];
+      lines.push(`- Started: ${toIso(conversation.createdAt)}`);
+      if (conversation.externalUserId) {
+        lines.push(`- External user: ${conversation.externalUserId}`);
+      }
+      if (conversation.topics?.length) {
+        lines.push(`- Topics: ${conversation.topics.join(', ')}`);
+      }
+      lines.push('');
+
+      for (const m of msgs) {
+        const speaker =
+          m.role === 'assistant'
+            ? 'Assistant'
+            : m.role === 'user'
+              ? 'User'
+              : m.role === 'operator'
+                ? `Operator${m.metadata?.operatorName ? ` (${m.metadata.operatorName})` : ''}`
+                : 'System';
+        const model = m.metadata?.model ? ` · ${m.metadata.model}` : '';
+        lines.push(`## ${speaker} (${toIso(m.createdAt)}${model})`, '', m.content, '');
+
+        const citations = (m.metadata?.citations || []) as any[];
+        if (citations.length) {
+          for (const c of citations) {
+            lines.push(`[${c.index}]: ${c.url || c.title}`);
+          }
+          lines.push('');
+        }
+      }
+
+      return lines.join('\n');
+    })
+    .join('\n---\n\n');
+}
+
+export function formatTranscripts(transcripts: Transcript[], format: TranscriptFormat): {
+  body: string;
+  contentType: string;
+  extension: string;
+} {
+  switch (format) {
+    case 'csv':
+      return { body: formatCsv(transcripts), contentType: 'text/csv; charset=utf-8', extension: 'csv' };
+    case 'markdown':
+      return { body: formatMarkdown(transcripts), contentType: 'text/markdown; charset=utf-8', extension: 'md' };
+    default:
+      return { body: formatJson(transcripts), contentType: 'application/json; charset=utf-8', extension: 'json' };
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Usage Accounting
+ *
+ * Every assistant message stores the tokens, cost and latency of the model calls behind it
+ * in its metadata (`usage`, `costUsd`, `latencyMs`). This module rolls those up per agent
+ * so admins can see what each agent costs per day and per model.
+ */
+
+import { db } from '../db/client';
+import { conversations, messages } from '../db/schema';
+import { and, desc, eq, gte, lt, sql, SQL } from 'drizzle-orm';
+
+export interface UsageTotals {
+  messages: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  // Replies on models without catalog pricing; their tokens are counted but not their cost
+  unpricedMessages: number;
+  avgLatencyMs: number | null;
+}
+
+export interface UsageReport {
+  totals: UsageTotals;
+  daily: (UsageTotals & { date: string })[];
+  byModel: (UsageTotals & { model: string })[];
+  topConversations: {
+    conversationId: number;
+    title: string | null;
+    externalUserId: string | null;
+    costUsd: number;
+    inputTokens: number;
+    outputTokens: number;
+  }[];
+}
+
+// Aggregates over assistant messages with recorded usage
+const totalsColumns = {
+  messages: sql<number>`count(*)::int`,
+  inputTokens: sql<number>`coalesce(sum((${messages.metadata}->'usage'->>'inputTokens')::int), 0)::int`,
+  outputTokens: sql<number>`coalesce(sum((${messages.metadata}->'usage'->>'outputTokens')::int), 0)::int`,
+  costUsd: sql<number>`coalesce(sum((${messages.metadata}->>'costUsd')::numeric), 0)::float8`,
+  unpricedMessages: sql<number>`count(*) FILTER (WHERE ${messages.metadata}->>'costUsd' IS NULL)::int`,
+  avgLatencyMs: sql<number | null>`round(avg((${messages.metadata}->>'latencyMs')::int))::int`,
+};
+
+function buildConditions(agentId: string, from: Date, to: Date): SQL | undefined {
+  return and(
+    eq(conversations.agentId, agentId),
+    eq(messages.role, 'assistant'),
+    sql`${messages.metadata} ? 'usage'`,
+    gte(messages.createdAt, from),
+    lt(messages.createdAt, to)
+  );
+}
+
+const EMPTY_TOTALS: UsageTotals = {
+  messages: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  costUsd: 0,
+  unpricedMessages: 0,
+  avgLatencyMs: null,
+};
+
+/**
+ * Token and cost totals for an agent between `from` (inclusive) and `to` (exclusive)
+ */
+export async function getUsageTotals(agentId: string, from: Date, to: Date): Promise<UsageTotals> {
+  const rows = await db
+    .select(totalsColumns)
+    .from(messages)
+    .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+    .where(buildConditions(agentId, from, to));
+  return rows[0] || EMPTY_TOTALS;
+}
+
+/**
+ * Usage report for an agent between `from` (inclusive) and `to` (exclusive):
+ * totals, by UTC day, by model and for the most expensive conversations
+ */
+export async function getUsageReport(agentId: string, from: Date, to: Date): Promise<UsageReport> {
+  const where = buildConditions(agentId, from, to);
+  const day = sql<string>`to_char(date_trunc('day', ${messages.createdAt}), 'YYYY-MM-DD')`;
+  const model = sql<string>`coalesce(${messages.metadata}->>'model', 'unknown')`;
+
+  const [totals, daily, byModel, topConversations] = await Promise.all([
+    getUsageTotals(agentId, from, to),
+    db
+      .select({ date: day, ...totalsColumns })
+      .from(messages)
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .where(where)
+      .groupBy(day)
+      .orderBy(day),
+    db
+      .select({ model, ...totalsColumns })
+      .from(messages)
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .where(where)
+      .groupBy(model)
+      .orderBy(desc(totalsColumns.costUsd)),
+    db
+      .select({
+        conversationId: conversations.id,
+        title: conversations.title,
+        externalUserId: conversations.externalUserId,
+        costUsd: totalsColumns.costUsd,
+        inputTokens: totalsColumns.inputTokens,
+        outputTokens: totalsColumns.outputTokens,
+      })
+      .from(messages)
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .where(where)
+      .groupBy(conversations.id)
+      .orderBy(desc(totalsColumns.costUsd))
+      .limit(10),
+  ]);
+
+  return { totals, daily, byModel, topConversations };
+}
@@ -31,6 +31,21 @@ async function createTablesIfNotExist(): Promise<void> {
   await db.execute(sql`
     ALTER TABLE ai_agents ADD COLUMN IF NOT EXISTS branding JSONB
   `).catch(() => {});
+  await db.execute(sql`
+    ALTER TABLE ai_agents ADD COLUMN IF NOT EXISTS handoff JSONB
+  `).catch(() => {});
+  await db.execute(sql`
+    ALTER TABLE ai_agents ADD COLUMN IF NOT EXISTS limits JSONB
+  `).catch(() => {});
+  await db.execute(sql`
+    ALTER TABLE ai_agents ADD COLUMN IF NOT EXISTS suggestions JSONB
+  `).catch(() => {});
+  await db.execute(sql`
+    ALTER TABLE ai_agents ADD COLUMN IF NOT EXISTS model_fallback JSONB
+  `).catch(() => {});
+  await db.execute(sql`
+    ALTER TABLE ai_agents ADD COLUMN IF NOT EXISTS generation JSONB
+  `).catch(() => {});
   await db.execute(sql`
     ALTER TABLE ai_capabilities ADD COLUMN IF NOT EXISTS category VARCHAR(64)
   `).catch(() => {});
@@ -76,6 +91,38 @@ async function createTablesIfNotExist(): Promise<void> {
     )
   `);
 
+  await db.execute(sql`
+    ALTER TABLE ai_conversations ADD COLUMN IF NOT EXISTS summary TEXT
+  `).catch(() => {});
+  await db.execute(sql`
+    ALTER TABLE ai_conversations ADD COLUMN IF NOT EXISTS summary_message_id INTEGER
+  `).catch(() => {});
+  await db.execute(sql`
+    ALTER TABLE ai_conversations ADD COLUMN IF NOT EXISTS active_message_id INTEGER
+  `).catch(() => {});
+
+  // Human handoff
+  await db.execute(sql`
+    ALTER TABLE ai_conversations ADD COLUMN IF NOT EXISTS status VARCHAR(16) DEFAULT 'bot' NOT NULL
+  `).catch(() => {});
+  await db.execute(sql`
+    ALTER TABLE ai_conversations ADD COLUMN IF NOT EXISTS operator_name VARCHAR(255)
+  `).catch(() => {});
+  await db.execute(sql`
+    ALTER TABLE ai_conversations ADD COLUMN IF NOT EXISTS handoff_reason VARCHAR(32)
+  `).catch(() => {});
+  await db.execute(sql`
+    ALTER TABLE ai_conversations ADD COLUMN IF NOT EXISTS handoff_at TIMESTAMP
+  `).catch(() => {});
+
+  // Generated title and topic labels
+  await db.execute(sql`
+    ALTER TABLE ai_conversations ADD COLUMN IF NOT EXISTS topics JSONB
+  `).catch(() => {});
+  await db.execute(sql`
+    ALTER TABLE ai_conversations ADD COLUMN IF NOT EXISTS labeled_at TIMESTAMP
+  `).catch(() => {});
+
   // Messages table
   await db.execute(sql`
     CREATE TABLE IF NOT EXISTS ai_messages (
@@ -88,6 +135,131 @@ async function createTablesIfNotExist(): Promise<void> {
     )
   `);
 
+  // Branching: link each message to the one before it. Existing conversations are linear,
+  // so when the column is first added, chain their messages in id order.
+  const parentColumn = await db.execute(sql`
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'ai_messages' AND column_name = 'parent_id'
+  `);
+  if (!parentColumn.rows.length) {
+    await db.execute(sql`ALTER TABLE ai_messages ADD COLUMN parent_id INTEGER`);
+    await db.execute(sql`
+      UPDATE ai_messages m
+      SET parent_id = ordered.previous_id
+      FROM (
+        SELECT id, LAG(id) OVER (PARTITION BY conversation_id ORDER BY id) AS previous_id
+        FROM ai_messages
+      ) ordered
+      WHERE m.id = ordered.id AND ordered.previous_id IS NOT NULL
+    `);
+    console.log('[db] Linked existing messages for branching');
+  }
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS idx_messages_parent ON ai_messages(parent_id)
+  `).catch(() => {});
+
+  // Chat attachments table
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS ai_attachments (
+      id SERIAL PRIMARY KEY,
+      conversation_id INTEGER NOT NULL,
+      message_id INTEGER,
+      kind VARCHAR(16) NOT NULL,
+      file_name VARCHAR(255) NOT NULL,
+      mime_type VARCHAR(128) NOT NULL,
+      size INTEGER NOT NULL,
+      storage_path VARCHAR(512) NOT NULL,
+      extracted_text TEXT,
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL
+    )
+  `);
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS idx_attachments_conversation ON ai_attachments(conversation_id, message_id)
+  `).catch(() => {});
+
+  // Conversation-scoped chunks of attached documents (with pgvector)
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS ai_conversation_chunks (
+      id SERIAL PRIMARY KEY,
+      conversation_id INTEGER NOT NULL,
+      attachment_id INTEGER NOT NULL,
+      chunk_index INTEGER NOT NULL,
+      content TEXT NOT NULL,
+      embedding vector(1536),
+      token_count INTEGER,
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL
+    )
+  `);
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS idx_conversation_chunks_conversation ON ai_conversation_chunks(conversation_id)
+  `).catch(() => {});
+
+  // Message feedback table
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS ai_message_feedback (
+      id SERIAL PRIMARY KEY,
+      message_id INTEGER NOT NULL UNIQUE,
+      conversation_id INTEGER NOT NULL,
+      agent_id VARCHAR(64) NOT NULL,
+      rating VARCHAR(8) NOT NULL,
+      comment TEXT,
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+      updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+    )
+  `);
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS idx_message_feedback_agent ON ai_message_feedback(agent_id, rating)
+  `).catch(() => {});
+
+  // Admin alerts raised by chat limits
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS ai_agent_alerts (
+      id SERIAL PRIMARY KEY,
+      agent_id VARCHAR(64) NOT NULL,
+      kind VARCHAR(32) NOT NULL,
+      period VARCHAR(16) NOT NULL,
+      message TEXT NOT NULL,
+      acknowledged_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+      UNIQUE (agent_id, kind, period)
+    )
+  `);
+
+  // Model catalog (seeded by llm/modelCatalog.ts)
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS ai_models (
+      id VARCHAR(128) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      provider VARCHAR(32) NOT NULL,
+      base_url TEXT,
+      context_window INTEGER NOT NULL,
+      max_output_tokens INTEGER,
+      pricing JSONB,
+      supports_vision INTEGER DEFAULT 0 NOT NULL,
+      supports_tools INTEGER DEFAULT 1 NOT NULL,
+      enabled INTEGER DEFAULT 1 NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+      updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+    )
+  `);
+
+  // Indexes for admin conversation listing and transcript search
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS idx_conversations_agent_created ON ai_conversations(agent_id, created_at DESC)
+  `).catch(() => {});
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS idx_messages_conversation ON ai_messages(conversation_id)
+  `).catch(() => {});
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS idx_conversations_agent_status ON ai_conversations(agent_id, status)
+  `).catch(() => {});
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS idx_conversations_topics ON ai_conversations USING gin (topics)
+  `).catch(() => {});
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS idx_messages_content_search ON ai_messages USING gin (to_tsvector('simple', content))
+  `).catch(() => {});
+
   // Capabilities table
   await db.execute(sql`
     CREATE TABLE IF NOT EXISTS ai_capabilities (
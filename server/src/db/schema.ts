@@ -25,6 +25,11 @@ export const agents = pgTable('ai_agents', {
   modelMode: varchar('model_mode', { length: 16 }).default('single'), // 'single' | 'multi'
   allowedModels: jsonb('allowed_models'), // Array of model IDs when modelMode is 'multi'
   branding: jsonb('branding'), // Full branding/theme settings (AgentTheme object)
+  handoff: jsonb('handoff'), // Human handoff settings (HandoffSettings); NULL = disabled
+  limits: jsonb('limits'), // Chat rate limits and budgets (LimitSettings); NULL = defaults
+  suggestions: jsonb('suggestions'), // Follow-up question settings (SuggestionSettings); NULL = disabled
+  modelFallback: jsonb('model_fallback'), // Fallback models and retry policy (FallbackSettings); NULL = defaults
+  generation: jsonb('generation'), // Sampling parameters for replies (GenerationSettings); NULL = defaults
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -59,6 +64,15 @@ export const conversations = pgTable('ai_conversations', {
   agentId: varchar('agent_id', { length: 64 }).notNull(),
   externalUserId: varchar('external_user_id', { length: 255 }),
   title: varchar('title', { length: 255 }),
+  summary: text('summary'), // Rolling summary of turns that fell out of the history window
+  summaryMessageId: integer('summary_message_id'), // Last ai_messages.id folded into summary
+  activeMessageId: integer('active_message_id'), // Leaf of the branch the user is currently on
+  status: varchar('status', { length: 16 }).default('bot').notNull(), // bot | pending_human | human | closed
+  operatorName: varchar('operator_name', { length: 255 }), // Operator who claimed the conversation
+  handoffReason: varchar('handoff_reason', { length: 32 }), // user_request | model
+  handoffAt: timestamp('handoff_at'), // When a human was last requested
+  topics: jsonb('topics'), // Topic labels generated after the first exchange
+  labeledAt: timestamp('labeled_at'), // When the title and topics were generated
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -66,12 +80,79 @@ export const conversations = pgTable('ai_conversations', {
 export const messages = pgTable('ai_messages', {
   id: serial('id').primaryKey(),
   conversationId: integer('conversation_id').notNull(),
-  role: varchar('role', { length: 16 }).notNull(), // user | assistant | system
+  parentId: integer('parent_id'), // Previous message on the same branch; NULL for a root
+  role: varchar('role', { length: 16 }).notNull(), // user | assistant | system | operator
   content: text('content').notNull(),
   metadata: jsonb('metadata'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+// File uploaded in the chat widget; linked to the user message it was sent with
+export const attachments = pgTable('ai_attachments', {
+  id: serial('id').primaryKey(),
+  conversationId: integer('conversation_id').notNull(),
+  messageId: integer('message_id'), // NULL until the message is sent
+  kind: varchar('kind', { length: 16 }).notNull(), // 'image' | 'document'
+  fileName: varchar('file_name', { length: 255 }).notNull(),
+  mimeType: varchar('mime_type', { length: 128 }).notNull(),
+  size: integer('size').notNull(),
+  storagePath: varchar('storage_path', { length: 512 }).notNull(),
+  extractedText: text('extracted_text'), // Documents only
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Chunks of documents a user attached to a conversation. Searched only within that
+// conversation, alongside the agent's knowledge base, and removed when it expires.
+export const conversationChunks = pgTable('ai_conversation_chunks', {
+  id: serial('id').primaryKey(),
+  conversationId: integer('conversation_id').notNull(),
+  attachmentId: integer('attachment_id').notNull(),
+  chunkIndex: integer('chunk_index').notNull(),
+  content: text('content').notNull(),
+  embedding: vector('embedding'),
+  tokenCount: integer('token_count'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// End-user rating of an assistant message (one per message, latest wins)
+export const messageFeedback = pgTable('ai_message_feedback', {
+  id: serial('id').primaryKey(),
+  messageId: integer('message_id').notNull().unique(),
+  conversationId: integer('conversation_id').notNull(),
+  agentId: varchar('agent_id', { length: 64 }).notNull(),
+  rating: varchar('rating', { length: 8 }).notNull(), // 'up' | 'down'
+  comment: text('comment'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Admin alert raised by chat limits; unique per agent, kind and period (day, month or hour)
+export const agentAlerts = pgTable('ai_agent_alerts', {
+  id: serial('id').primaryKey(),
+  agentId: varchar('agent_id', { length: 64 }).notNull(),
+  kind: varchar('kind', { length: 32 }).notNull(), // AlertKind
+  period: varchar('period', { length: 16 }).notNull(), // e.g. '2025-06-01', '2025-06', '2025-06-01T14'
+  message: text('message').notNull(),
+  acknowledgedAt: timestamp('acknowledged_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Model catalog - models agents can use and how to reach them
+export const models = pgTable('ai_models', {
+  id: varchar('id', { length: 128 }).primaryKey(), // Model name sent to the provider
+  name: varchar('name', { length: 255 }).notNull(),
+  provider: varchar('provider', { length: 32 }).notNull(), // ModelProvider
+  baseUrl: text('base_url'), // OpenAI-compatible endpoint (openai and local providers only)
+  contextWindow: integer('context_window').notNull(), // input + output tokens
+  maxOutputTokens: integer('max_output_tokens'), // Cap on tokens requested per call; NULL = no cap
+  pricing: jsonb('pricing'), // ModelPricing in USD per million tokens; NULL = unpriced
+  supportsVision: integer('supports_vision').notNull().default(0),
+  supportsTools: integer('supports_tools').notNull().default(1),
+  enabled: integer('enabled').notNull().default(1),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
 // Capability registry - what capabilities exist in the system
 // type: 'mcp' (normal MCP server) or 'anyapi' (JSON-configurable API)
 export const capabilities = pgTable('ai_capabilities', {
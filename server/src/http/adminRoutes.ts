@@ -1,14 +1,15 @@
-import { Router } from 'express';
+import { Router, Response } from 'express';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 import { db } from '../db/client';
-import { agents, folders, tags, documentTags, documents } from '../db/schema';
-import { ensureDefaultAgent } from '../chat/chatService';
-import { AVAILABLE_MODELS } from '../llm';
+import { agents, folders, tags, documentTags, documents, conversations } from '../db/schema';
+import { ensureDefaultAgent, appendOperatorMessage } from '../chat/chatService';
+import { listModels, getModelInfo, getCircuitStatus } from '../llm';
+import { parseModelInput, createModel, updateModel, deleteModel } from '../llm/modelCatalog';
 import { capabilityService } from '../capabilities';
 import { getOrchestrator } from '../mcp-hub';
-import { eq, and, isNull, sql, inArray } from 'drizzle-orm';
+import { eq, and, or, isNull, sql, inArray } from 'drizzle-orm';
 import { getFeatures, canCreateAgent, getLicensingStatus } from '../licensing';
 import {
   getGitLabConnection,
@@ -21,6 +22,35 @@ import {
   executeRefresh,
   getArchivePath,
 } from '../tools/gitlab';
+import {
+  listConversations,
+  getTranscripts,
+  getFilteredTranscripts,
+  formatTranscripts,
+  ConversationFilters,
+  TranscriptFormat,
+  TRANSCRIPT_FORMATS,
+  Transcript,
+} from '../chat/transcripts';
+import { listConversationTopics } from '../chat/conversationLabels';
+import { getFeedbackReport, getFeedbackSummary, FeedbackRating, FEEDBACK_RATINGS } from '../chat/feedback';
+import { getUsageReport } from '../chat/usage';
+import { getLimitSettings, parseLimitSettings, getAlerts, acknowledgeAlert } from '../chat/limits';
+import { getSuggestionSettings, parseSuggestionSettings } from '../chat/suggestions';
+import { getFallbackSettings, parseFallbackSettings } from '../chat/modelFallback';
+import { getGenerationSettings, parseGenerationSettings } from '../chat/generation';
+import {
+  getHandoffQueue,
+  getHandoffSettings,
+  parseHandoffSettings,
+  claimConversation,
+  releaseConversation,
+  closeConversation,
+  ConversationStatus,
+  CONVERSATION_STATUSES,
+} from '../chat/handoff';
+import { publishConversationEvent } from '../chat/conversationEvents';
+import { ReplyError } from '../chat/replyPipeline';
 
 export const adminRouter = Router();
 
@@ -59,9 +89,94 @@ const avatarUpload = multer({
   },
 });
 
-// Get available LLM models
-adminRouter.get('/models', async (_req, res) => {
-  res.json({ models: AVAILABLE_MODELS });
+// ============================================================================
+// Model Catalog
+// ============================================================================
+
+// List catalog models (enabled only unless ?all=true) and providers with recent failures
+adminRouter.get('/models', async (req, res) => {
+  res.json({ models: listModels(req.query.all === 'true'), circuits: getCircuitStatus() });
+});
+
+// Add a model to the catalog
+adminRouter.post('/models', async (req, res) => {
+  try {
+    const id = typeof req.body.id === 'string' ? req.body.id.trim() : '';
+    if (!id || id.length > 128) {
+      return res.status(400).json({ error: 'id is required (at most 128 characters)' });
+    }
+
+    const input = parseModelInput(req.body);
+    if (typeof input === 'string') {
+      return res.status(400).json({ error: input });
+    }
+
+    const model = await createModel(id, input);
+    if (!model) {
+      return res.status(409).json({ error: `Model '${id}' already exists` });
+    }
+    res.status(201).json({ model });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to create model' });
+  }
+});
+
+// Update a catalog model
+adminRouter.put('/models/:modelId', async (req, res) => {
+  try {
+    const existing = getModelInfo(req.params.modelId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Model not found' });
+    }
+
+    const input = parseModelInput(req.body, existing);
+    if (typeof input === 'string') {
+      return res.status(400).json({ error: input });
+    }
+
+    const model = await updateModel(existing.id, input);
+    if (!model) {
+      return res.status(404).json({ error: 'Model not found' });
+    }
+    res.json({ model });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to update model' });
+  }
+});
+
+// Remove a model from the catalog, unless an agent uses it as its default
+adminRouter.delete('/models/:modelId', async (req, res) => {
+  try {
+    const { modelId } = req.params;
+    // Agents that could still be sent to the model: as their default, picker choice or fallback
+    const users = await db
+      .select({ name: agents.name, defaultModel: agents.defaultModel })
+      .from(agents)
+      .where(
+        or(
+          eq(agents.defaultModel, modelId),
+          sql`${agents.allowedModels} ? ${modelId}`,
+          sql`${agents.modelFallback}->'models' ? ${modelId}`
+        )
+      )
+      .limit(1);
+    if (users[0]) {
+      const use = users[0].defaultModel === modelId ? 'as its default' : 'in its allowed or fallback models';
+      return res
+        .status(409)
+        .json({ error: `'${users[0].name}' uses this model ${use}. Change that agent or disable the model.` });
+    }
+
+    if (!(await deleteModel(modelId))) {
+      return res.status(404).json({ error: 'Model not found' });
+    }
+    res.json({ success: true });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to delete model' });
+  }
 });
 
 // ============================================================================
@@ -168,7 +283,16 @@ adminRouter.get('/agents/:agentId', async (req, res) => {
       return res.status(404).json({ error: 'Agent not found' });
     }
 
-    res.json({ agent });
+    res.json({
+      agent: {
+        ...agent,
+        handoff: getHandoffSettings(agent),
+        limits: getLimitSettings(agent),
+        suggestions: getSuggestionSettings(agent),
+        modelFallback: getFallbackSettings(agent),
+        generation: getGenerationSettings(agent),
+      },
+    });
   } catch (err) {
     console.error(err);
     res.status(500).json({ error: 'Failed to load agent' });
@@ -179,7 +303,20 @@ adminRouter.get('/agents/:agentId', async (req, res) => {
 adminRouter.put('/agents/:agentId', async (req, res) => {
   try {
     const { agentId } = req.params;
-    const { name, description, instructions, defaultModel, modelMode, allowedModels, branding } = req.body as {
+    const {
+      name,
+      description,
+      instructions,
+      defaultModel,
+      modelMode,
+      allowedModels,
+      branding,
+      handoff,
+      limits,
+      suggestions,
+      modelFallback,
+      generation,
+    } = req.body as {
       name?: string;
       description?: string;
       instructions?: string;
@@ -187,6 +324,11 @@ adminRouter.put('/agents/:agentId', async (req, res) => {
       modelMode?: 'single' | 'multi';
       allowedModels?: string[] | null;
       branding?: Record<string, any> | null;
+      handoff?: Record<string, any>;
+      limits?: Record<string, any>;
+      suggestions?: Record<string, any>;
+      modelFallback?: Record<string, any>;
+      generation?: Record<string, any>;
     };
 
     const patch: any = { updatedAt: new Date() };
@@ -197,6 +339,31 @@ adminRouter.put('/agents/:agentId', async (req, res) => {
     if (typeof modelMode === 'string') patch.modelMode = modelMode;
     if (allowedModels !== undefined) patch.allowedModels = allowedModels;
     if (branding !== undefined) patch.branding = branding;
+    if (handoff !== undefined) {
+      const settings = parseHandoffSettings(handoff);
+      if (typeof settings === 'string') return res.status(400).json({ error: settings });
+      patch.handoff = settings;
+    }
+    if (limits !== undefined) {
+      const settings = parseLimitSettings(limits);
+      if (typeof settings === 'string') return res.status(400).json({ error: settings });
+      patch.limits = settings;
+    }
+    if (suggestions !== undefined) {
+      const settings = parseSuggestionSettings(suggestions);
+      if (typeof settings === 'string') return res.status(400).json({ error: settings });
+      patch.suggestions = settings;
+    }
+    if (modelFallback !== undefined) {
+      const settings = parseFallbackSettings(modelFallback);
+      if (typeof settings === 'string') return res.status(400).json({ error: settings });
+      patch.modelFallback = settings;
+    }
+    if (generation !== undefined) {
+      const settings = parseGenerationSettings(generation);
+      if (typeof settings === 'string') return res.status(400).json({ error: settings });
+      patch.generation = settings;
+    }
 
     const rows = (await db
       .update(agents)
@@ -1522,3 +1689,382 @@ adminRouter.delete('/agents/:agentId/tools/gitlab/refreshes/:refreshId', async (
     res.status(500).json({ error: 'Failed to delete refresh' });
   }
 });
+
+// ============================================================================
+// Conversation Review Routes
+// ============================================================================
+
+// Parse a `from`/`to` query value; date-only `to` values include that whole day
+function parseDateFilter(value: unknown, endOfDay = false): Date | undefined | null {
+  if (typeof value !== 'string' || !value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date;
+}
+
+// Conversation ids are serial (int4) keys; anything else would fail in the query
+function parseConversationId(value: string | undefined): number | null {
+  const id = value && /^\d{1,10}$/.test(value) ? Number(value) : 0;
+  return id > 0 && id <= 2147483647 ? id : null;
+}
+
+function parseConversationFilters(query: Record<string, unknown>): ConversationFilters | null {
+  const from = parseDateFilter(query.from);
+  const to = parseDateFilter(query.to, true);
+  if (from === null || to === null) return null;
+
+  return {
+    externalUserId: typeof query.externalUserId === 'string' && query.externalUserId ? query.externalUserId : undefined,
+    from,
+    to,
+    search: typeof query.q === 'string' && query.q.trim() ? query.q.trim() : undefined,
+    topic: typeof query.topic === 'string' && query.topic ? query.topic : undefined,
+  };
+}
+
+function sendTranscripts(res: Response, transcripts: Transcript[], format: TranscriptFormat, filename: string) {
+  const { body, contentType, extension } = formatTranscripts(transcripts, format);
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.${extension}"`);
+  res.send(body);
+}
+
+// List conversations with pagination and filters (externalUserId, from, to, q, topic)
+adminRouter.get('/agents/:agentId/conversations', async (req, res) => {
+  try {
+    const { agentId } = req.params;
+    const filters = parseConversationFilters(req.query as Record<string, unknown>);
+    if (!filters) {
+      return res.status(400).json({ error: 'Invalid date filter' });
+    }
+
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const pageSize = Math.min(Math.max(parseInt(req.query.pageSize as string) || 25, 1), 100);
+
+    const result = await listConversations(agentId, filters, page, pageSize);
+    res.json({ ...result, page, pageSize });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to load conversations' });
+  }
+});
+
+// Topic labels of an agent's conversations with counts
+adminRouter.get('/agents/:agentId/conversations/topics', async (req, res) => {
+  try {
+    const topics = await listConversationTopics(req.params.agentId);
+    res.json({ topics });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to load topics' });
+  }
+});
+
+// Export all conversations matching the filters
+adminRouter.get('/agents/:agentId/conversations/export', async (req, res) => {
+  try {
+    const { agentId } = req.params;
+    const format = ((req.query.format as string) || 'json') as TranscriptFormat;
+    if (!TRANSCRIPT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `Format must be one of: ${TRANSCRIPT_FORMATS.join(', ')}` });
+    }
+
+    const filters = parseConversationFilters(req.query as Record<string, unknown>);
+    if (!filters) {
+      return res.status(400).json({ error: 'Invalid date filter' });
+    }
+
+    const transcripts = await getFilteredTranscripts(agentId, filters);
+    sendTranscripts(res, transcripts, format, `conversations-${agentId}`);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to export conversations' });
+  }
+});
+
+// Get a single conversation transcript
+adminRouter.get('/agents/:agentId/conversations/:conversationId', async (req, res) => {
+  try {
+    const { agentId } = req.params;
+    const conversationId = parseConversationId(req.params.conversationId);
+    if (!conversationId) {
+      return res.status(400).json({ error: 'Invalid conversation id' });
+    }
+
+    const [transcript] = await getTranscripts(agentId, [conversationId]);
+    if (!transcript) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    res.json(transcript);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to load conversation' });
+  }
+});
+
+// Export a single conversation transcript
+adminRouter.get('/agents/:agentId/conversations/:conversationId/export', async (req, res) => {
+  try {
+    const { agentId } = req.params;
+    const conversationId = parseConversationId(req.params.conversationId);
+    if (!conversationId) {
+      return res.status(400).json({ error: 'Invalid conversation id' });
+    }
+    const format = ((req.query.format as string) || 'json') as TranscriptFormat;
+    if (!TRANSCRIPT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `Format must be one of: ${TRANSCRIPT_FORMATS.join(', ')}` });
+    }
+
+    const transcripts = await getTranscripts(agentId, [conversationId]);
+    if (!transcripts.length) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    sendTranscripts(res, transcripts, format, `conversation-${conversationId}`);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to export conversation' });
+  }
+});
+
+// ============================================================================
+// Feedback Routes
+// ============================================================================
+
+// Rated replies with their questions and retrieved sources (defaults to negative ratings)
+adminRouter.get('/agents/:agentId/feedback', async (req, res) => {
+  try {
+    const { agentId } = req.params;
+    const rating = ((req.query.rating as string) || 'down') as FeedbackRating;
+    if (!FEEDBACK_RATINGS.includes(rating)) {
+      return res.status(400).json({ error: `Rating must be one of: ${FEEDBACK_RATINGS.join(', ')}` });
+    }
+
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const pageSize = Math.min(Math.max(parseInt(req.query.pageSize as string) || 25, 1), 100);
+
+    const [report, summary] = await Promise.all([
+      getFeedbackReport(agentId, rating, page, pageSize),
+      getFeedbackSummary(agentId),
+    ]);
+
+    res.json({ ...report, summary, page, pageSize });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to load feedback' });
+  }
+});
+
+// ============================================================================
+// Usage and Limits Routes
+// ============================================================================
+
+// Longest range one usage report may cover
+const MAX_USAGE_DAYS = 366;
+
+// Token and cost totals per day, per model and top conversations (?from=&to=, default last 30 days)
+adminRouter.get('/agents/:agentId/usage', async (req, res) => {
+  try {
+    const { agentId } = req.params;
+    const to = parseDateFilter(req.query.to, true);
+    const from = parseDateFilter(req.query.from);
+    if (from === null || to === null) {
+      return res.status(400).json({ error: 'Invalid date filter' });
+    }
+
+    const end = to || new Date();
+    const start = from || new Date(end.getTime() - 30 * 24 * 60 * 60 * 1000);
+    if (start >= end || end.getTime() - start.getTime() > MAX_USAGE_DAYS * 24 * 60 * 60 * 1000) {
+      return res.status(400).json({ error: `Date range must be positive and at most ${MAX_USAGE_DAYS} days` });
+    }
+
+    const report = await getUsageReport(agentId, start, end);
+    res.json({ ...report, from: start.toISOString(), to: end.toISOString() });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to load usage' });
+  }
+});
+
+// Alerts raised by the agent's chat limits, newest first
+adminRouter.get('/agents/:agentId/alerts', async (req, res) => {
+  try {
+    res.json(await getAlerts(req.params.agentId));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to load alerts' });
+  }
+});
+
+// Mark an alert as seen
+adminRouter.post('/agents/:agentId/alerts/:alertId/acknowledge', async (req, res) => {
+  try {
+    const alert = await acknowledgeAlert(req.params.agentId, parseInt(req.params.alertId));
+    if (!alert) {
+      return res.status(404).json({ error: 'Alert not found' });
+    }
+    res.json({ alert });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to acknowledge alert' });
+  }
+});
+
+// ============================================================================
+// Human Handoff Routes
+// ============================================================================
+
+// The agent's conversation, or null when it belongs to another agent
+async function findAgentConversation(agentId: string, conversationId: number) {
+  const rows = (await db
+    .select()
+    .from(conversations)
+    .where(and(eq(conversations.id, conversationId), eq(conversations.agentId, agentId)))
+    .limit(1)) as any[];
+  return rows[0] || null;
+}
+
+// Conversations waiting for or assigned to an operator (?status= narrows to one status)
+adminRouter.get('/agents/:agentId/inbox', async (req, res) => {
+  try {
+    const { agentId } = req.params;
+    const status = req.query.status as ConversationStatus | undefined;
+    if (status && !CONVERSATION_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `Status must be one of: ${CONVERSATION_STATUSES.join(', ')}` });
+    }
+
+    const queue = await getHandoffQueue(agentId, status ? [status] : undefined);
+    res.json({ conversations: queue });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to load inbox' });
+  }
+});
+
+// Assign a conversation to an operator; the bot stops answering it
+adminRouter.post('/agents/:agentId/conversations/:conversationId/claim', async (req, res) => {
+  try {
+    const { agentId } = req.params;
+    const conversationId = parseConversationId(req.params.conversationId);
+    if (!conversationId) {
+      return res.status(400).json({ error: 'Invalid conversation id' });
+    }
+    const operatorName = String(req.body.operatorName || '').trim();
+    if (!operatorName) {
+      return res.status(400).json({ error: 'operatorName is required' });
+    }
+
+    if (!(await findAgentConversation(agentId, conversationId))) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    const conversation = await claimConversation(conversationId, operatorName);
+    res.json({ conversation });
+  } catch (err) {
+    if (err instanceof ReplyError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error(err);
+    res.status(500).json({ error: 'Failed to claim conversation' });
+  }
+});
+
+// Reply to the user as the operator who claimed the conversation
+adminRouter.post('/agents/:agentId/conversations/:conversationId/messages', async (req, res) => {
+  try {
+    const { agentId } = req.params;
+    const conversationId = parseConversationId(req.params.conversationId);
+    if (!conversationId) {
+      return res.status(400).json({ error: 'Invalid conversation id' });
+    }
+    const content = String(req.body.content || '');
+    if (!content.trim()) {
+      return res.status(400).json({ error: 'Content is required' });
+    }
+
+    const conversation = await findAgentConversation(agentId, conversationId);
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    const operatorName = String(req.body.operatorName || conversation.operatorName || 'Operator');
+    const message = await appendOperatorMessage(conversationId, operatorName, content);
+    res.status(201).json({ message });
+  } catch (err) {
+    if (err instanceof ReplyError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error(err);
+    res.status(500).json({ error: 'Failed to send message' });
+  }
+});
+
+// Hand a conversation back to the bot
+adminRouter.post('/agents/:agentId/conversations/:conversationId/release', async (req, res) => {
+  try {
+    const { agentId } = req.params;
+    const conversationId = parseConversationId(req.params.conversationId);
+    if (!conversationId) {
+      return res.status(400).json({ error: 'Invalid conversation id' });
+    }
+    if (!(await findAgentConversation(agentId, conversationId))) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    const conversation = await releaseConversation(conversationId);
+    res.json({ conversation });
+  } catch (err) {
+    if (err instanceof ReplyError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error(err);
+    res.status(500).json({ error: 'Failed to release conversation' });
+  }
+});
+
+// Mark a conversation as resolved
+adminRouter.post('/agents/:agentId/conversations/:conversationId/close', async (req, res) => {
+  try {
+    const { agentId } = req.params;
+    const conversationId = parseConversationId(req.params.conversationId);
+    if (!conversationId) {
+      return res.status(400).json({ error: 'Invalid conversation id' });
+    }
+    if (!(await findAgentConversation(agentId, conversationId))) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    const conversation = await closeConversation(conversationId);
+    res.json({ conversation });
+  } catch (err) {
+    if (err instanceof ReplyError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error(err);
+    res.status(500).json({ error: 'Failed to close conversation' });
+  }
+});
+
+// Show or hide the operator typing indicator in the user's widget
+adminRouter.post('/agents/:agentId/conversations/:conversationId/typing', async (req, res) => {
+  try {
+    const { agentId } = req.params;
+    const conversationId = parseConversationId(req.params.conversationId);
+    if (!conversationId) {
+      return res.status(400).json({ error: 'Invalid conversation id' });
+    }
+    if (!(await findAgentConversation(agentId, conversationId))) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    publishConversationEvent(conversationId, { event: 'typing', role: 'operator', typing: req.body.typing === true });
+    res.json({ success: true });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to send typing indicator' });
+  }
+});
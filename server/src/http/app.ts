@@ -3,6 +3,7 @@ import cors from 'cors';
 import path from 'path';
 import fs from 'fs';
 import { chatRouter } from './chatRoutes';
+import { chatLimits } from './chatLimits';
 import { capabilityRouter } from './capabilityRoutes';
 import { kbRouter } from './kbRoutes';
 import { ragRouter } from './ragRoutes';
@@ -16,8 +17,17 @@ if (!fs.existsSync(uploadsPath)) {
   console.log('[app] Created uploads directory:', uploadsPath);
 }
 
+// Proxies allowed to set X-Forwarded-For, so req.ip is the visitor's address (used by chat
+// rate limits). TRUST_PROXY takes Express's values: `true`, a hop count, or addresses/subnets.
+function trustProxySetting(value: string | undefined): boolean | number | string {
+  if (!value) return 'loopback, linklocal, uniquelocal';
+  if (value === 'true' || value === 'false') return value === 'true';
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
 export function createHttpApp() {
   const app = express();
+  app.set('trust proxy', trustProxySetting(process.env.TRUST_PROXY));
 
   // Enable CORS for all origins (dev mode)
   app.use(cors());
@@ -41,7 +51,7 @@ export function createHttpApp() {
     });
   });
 
-  app.use('/api/chat', chatRouter);
+  app.use('/api/chat', chatLimits, chatRouter);
   app.use('/api/capabilities', capabilityRouter);
   app.use('/api/kb', kbRouter);
   app.use('/api/rag', ragRouter);
@@ -0,0 +1,33 @@
+import { Request, Response, NextFunction } from 'express';
+import { checkChatLimits, checkRequestRate } from '../chat/limits';
+
+// Chat requests that generate a reply: /:conversationId/(message|stream|regenerate|messages/:id/edit)
+const REPLY_PATH = /^\/(\d+)\/(?:message|stream|regenerate|messages\/\d+\/edit)\/?$/;
+
+// Other chat requests limited per client IP
+const REQUEST_PATH = /^\/(start|upload)\/?$/;
+
+/**
+ * Enforce the agent's rate limit and budgets in front of the chat routes, and the per-IP
+ * limits on starting conversations and uploading files.
+ * Refused requests get a 429 with `{ error, code, retryAfter }` and a Retry-After header.
+ */
+export async function chatLimits(req: Request, res: Response, next: NextFunction) {
+  const reply = req.method === 'POST' ? REPLY_PATH.exec(req.path) : null;
+  const request = req.method === 'POST' ? REQUEST_PATH.exec(req.path) : null;
+  if (!reply && !request) return next();
+
+  try {
+    const exceeded = reply
+      ? await checkChatLimits(Number(reply[1]), req.ip)
+      : checkRequestRate(request![1] as 'start' | 'upload', req.ip);
+    if (exceeded) {
+      res.setHeader('Retry-After', String(exceeded.retryAfter));
+      return res.status(429).json({ error: exceeded.message, code: exceeded.code, retryAfter: exceeded.retryAfter });
+    }
+  } catch (err) {
+    // Limits protect spend; a failed check should not take chat down with it
+    console.error('[chat] Failed to check limits:', err);
+  }
+  next();
+}
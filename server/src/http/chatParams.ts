@@ -0,0 +1,14 @@
+/**
+ * Fields shared by the chat requests of the HTTP routes and the WebSocket.
+ * Both read them from a parsed JSON body; invalid values are treated as absent.
+ */
+
+// Optional per-message model; validated against the agent's allowed models by the pipeline
+export function parseModel(body: any): string | undefined {
+  return typeof body.model === 'string' && body.model ? body.model : undefined;
+}
+
+// Ids returned by POST /upload, sent with the message they belong to
+export function parseFileIds(body: any): number[] {
+  return Array.isArray(body.fileIds) ? body.fileIds.map(Number).filter((id: number) => id > 0) : [];
+}
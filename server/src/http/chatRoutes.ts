@@ -1,11 +1,53 @@
-import { Router } from 'express';
+import { Router, Request, Response } from 'express';
+import multer from 'multer';
+import path from 'path';
+import fs from 'fs';
 import { eq } from 'drizzle-orm';
-import { appendMessage, ensureDefaultAgent, generateReply, startConversation, getConversationWithMessages, streamReply } from '../chat/chatService';
+import {
+  ensureDefaultAgent,
+  startConversation,
+  getConversationWithMessages,
+  replyPipeline,
+  regenerateReply,
+  editAndResend,
+  switchBranch,
+} from '../chat/chatService';
+import { getAllowedModels } from '../chat/agentModels';
+import { ReplyError, ReplyResult } from '../chat/replyPipeline';
+import {
+  ReplyStream,
+  ReplyStreamHooks,
+  runReplyStream,
+  findReplyStream,
+  stopReplyStreams,
+} from '../chat/replyStreams';
+import { recordFeedback, FeedbackRating, FEEDBACK_RATINGS } from '../chat/feedback';
+import {
+  saveAttachments,
+  getAttachment,
+  getAttachmentKind,
+  toAttachmentInfo,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  MAX_ATTACHMENT_BYTES,
+} from '../chat/attachments';
+import { getModelInfo } from '../llm';
+import { getFeatures } from '../licensing';
 import { db } from '../db/client';
-import { agents } from '../db/schema';
+import { agents, conversations } from '../db/schema';
+import { parseModel, parseFileIds } from './chatParams';
 
 export const chatRouter = Router();
 
+const attachmentDir = path.join(process.cwd(), 'uploads', 'chat');
+if (!fs.existsSync(attachmentDir)) {
+  fs.mkdirSync(attachmentDir, { recursive: true });
+}
+
+const attachmentUpload = multer({
+  dest: attachmentDir,
+  limits: { fileSize: MAX_ATTACHMENT_BYTES, files: MAX_ATTACHMENTS_PER_MESSAGE },
+});
+
 chatRouter.post('/start', async (req, res) => {
   try {
     const agentId = (req.body.agentId as string) || (await ensureDefaultAgent());
@@ -18,12 +60,23 @@ chatRouter.post('/start', async (req, res) => {
     const agentRows = await db.select().from(agents).where(eq(agents.id, agentId)).limit(1);
     const agent = agentRows[0];
 
+    // Models the widget may offer in its picker (more than one only for multi-model agents)
+    const models = agent
+      ? getAllowedModels(agent).map((id) => ({
+          id,
+          name: getModelInfo(id)?.name || id,
+        }))
+      : [];
+
     res.json({
       conversationId: conv.id,
       agent: agent ? {
         id: agent.id,
         name: agent.name,
-        branding: agent.branding
+        branding: agent.branding,
+        modelMode: agent.modelMode,
+        defaultModel: models[0]?.id || agent.defaultModel,
+        models,
       } : null
     });
   } catch (err) {
@@ -48,51 +101,213 @@ chatRouter.post('/:conversationId/message', async (req, res) => {
   try {
     const id = Number(req.params.conversationId);
     const message = String(req.body.message || '');
-    if (!message.trim()) return res.status(400).json({ error: 'Message is required' });
+    const model = parseModel(req.body);
+    const attachmentIds = parseFileIds(req.body);
+    if (!message.trim() && !attachmentIds.length) return res.status(400).json({ error: 'Message is required' });
 
-    await appendMessage(id, 'user', message);
+    const result = await replyPipeline.run(id, message, { model, attachmentIds });
 
-    const result = await generateReply(id, message);
-
-    res.json({ conversationId: id, reply: result.reply, sources: result.sources });
+    res.json({
+      conversationId: id,
+      userMessageId: result.userMessageId,
+      messageId: result.messageId,
+      reply: result.reply,
+      model: result.model,
+      sources: result.sources,
+      citations: result.citations,
+      suggestions: result.suggestions,
+      conversationStatus: result.conversationStatus,
+    });
   } catch (err) {
+    if (err instanceof ReplyError) {
+      return res.status(err.status).json({ error: err.message });
+    }
     console.error(err);
     res.status(500).json({ error: 'Failed to send message' });
   }
 });
 
+// Write SSE headers and deliver a reply stream's events, replaying those after `lastEventId`
+function sendReplyStream(res: Response, stream: ReplyStream, lastEventId?: string) {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+
+  const unsubscribe = stream.subscribe(lastEventId, (event) => {
+    // Events after a disconnect have nowhere to go; the client resumes from its last id
+    if (res.destroyed || res.writableEnded) return;
+    res.write(`id: ${event.id}\ndata: ${JSON.stringify(event.payload)}\n\n`);
+    if (event.final) res.end();
+  });
+  res.on('close', unsubscribe);
+}
+
+/**
+ * Run a reply and stream it to the client as Server-Sent Events (SSE).
+ * Shared by sending, regenerating and editing so all three emit the same events.
+ * The reply is buffered so a dropped client can resume it with `GET /:conversationId/stream`;
+ * it is aborted when stopped or when no client reconnects in time, and the partial reply
+ * is persisted as interrupted.
+ */
+function streamReply(
+  res: Response,
+  conversationId: number,
+  run: (hooks: ReplyStreamHooks) => Promise<ReplyResult>
+) {
+  sendReplyStream(res, runReplyStream(conversationId, run));
+}
+
 // Streaming endpoint using Server-Sent Events (SSE)
-chatRouter.post('/:conversationId/stream', async (req, res) => {
+chatRouter.post('/:conversationId/stream', (req, res) => {
+  const id = Number(req.params.conversationId);
+  const message = String(req.body.message || '');
+  const model = parseModel(req.body);
+  const attachmentIds = parseFileIds(req.body);
+  if (!message.trim() && !attachmentIds.length) return res.status(400).json({ error: 'Message is required' });
+
+  streamReply(res, id, (hooks) => replyPipeline.run(id, message, { model, attachmentIds, ...hooks }));
+});
+
+// Resume a reply stream after a dropped connection (SSE). Replays the events after
+// `lastEventId` (query or Last-Event-ID header), then follows the reply if still running.
+chatRouter.get('/:conversationId/stream', (req, res) => {
+  const id = Number(req.params.conversationId);
+  const lastEventId =
+    (typeof req.query.lastEventId === 'string' && req.query.lastEventId) || req.get('Last-Event-ID') || undefined;
+
+  const stream = findReplyStream(id, lastEventId);
+  // 204 also tells EventSource clients to stop reconnecting
+  if (!stream) return res.status(204).end();
+
+  sendReplyStream(res, stream, lastEventId);
+});
+
+// Stop the conversation's in-flight reply; the text generated so far is kept
+chatRouter.post('/:conversationId/stop', (req, res) => {
+  const id = Number(req.params.conversationId);
+  const streamId = typeof req.body.streamId === 'string' ? req.body.streamId : undefined;
+
+  res.json({ stopped: stopReplyStreams(id, streamId) });
+});
+
+// Regenerate a reply as a new branch, optionally with another allowed model (SSE)
+chatRouter.post('/:conversationId/regenerate', (req, res) => {
+  const id = Number(req.params.conversationId);
+  const messageId = req.body.messageId !== undefined ? Number(req.body.messageId) : undefined;
+  const model = parseModel(req.body);
+
+  streamReply(res, id, (hooks) => regenerateReply(id, messageId, { model, ...hooks }));
+});
+
+// Edit a user message and re-run from that point as a new branch (SSE)
+chatRouter.post('/:conversationId/messages/:messageId/edit', (req, res) => {
+  const id = Number(req.params.conversationId);
+  const messageId = Number(req.params.messageId);
+  const message = String(req.body.message || '');
+  const model = parseModel(req.body);
+  if (!message.trim()) return res.status(400).json({ error: 'Message is required' });
+
+  streamReply(res, id, (hooks) => editAndResend(id, messageId, message, { model, ...hooks }));
+});
+
+// Upload files to send with the next message (multipart: `files`, `conversationId`).
+// Requires the multimodal feature; returns the ids to pass as `fileIds`.
+chatRouter.post(
+  '/upload',
+  (_req, res, next) => {
+    if (!getFeatures().multimodal) {
+      return res.status(403).json({ error: 'File attachments are not enabled for this license' });
+    }
+    next();
+  },
+  attachmentUpload.array('files', MAX_ATTACHMENTS_PER_MESSAGE),
+  async (req: Request, res) => {
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+    try {
+      const conversationId = Number(req.body.conversationId);
+      if (!files.length) return res.status(400).json({ error: 'At least one file is required' });
+
+      const rows = conversationId
+        ? await db.select({ id: conversations.id }).from(conversations).where(eq(conversations.id, conversationId)).limit(1)
+        : [];
+      if (!rows.length) return res.status(404).json({ error: 'Conversation not found' });
+
+      const unsupported = files.filter((f) => !getAttachmentKind(f.mimetype));
+      if (unsupported.length) {
+        return res.status(400).json({
+          error: `Unsupported file type: ${unsupported.map((f) => f.originalname).join(', ')}`,
+        });
+      }
+
+      const saved = await saveAttachments(conversationId, files);
+      res.json({ fileIds: saved.map((a) => a.id), attachments: saved.map(toAttachmentInfo) });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: 'Failed to upload files' });
+    } finally {
+      // Rejected uploads are not kept
+      if (res.statusCode >= 400) {
+        for (const file of files) fs.promises.unlink(file.path).catch(() => {});
+      }
+    }
+  }
+);
+
+// Download a file sent in the conversation
+chatRouter.get('/:conversationId/attachments/:attachmentId', async (req, res) => {
+  try {
+    const attachment = await getAttachment(Number(req.params.conversationId), Number(req.params.attachmentId));
+    if (!attachment) return res.status(404).json({ error: 'Attachment not found' });
+
+    // Only images are shown in the page; everything else is downloaded, and never sniffed
+    const disposition = attachment.kind === 'image' ? 'inline' : 'attachment';
+    res.setHeader('Content-Type', attachment.mimeType);
+    res.setHeader('Content-Disposition', `${disposition}; filename="${encodeURIComponent(attachment.fileName)}"`);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.sendFile(attachment.storagePath);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to load attachment' });
+  }
+});
+
+// Switch the active branch to the one containing messageId
+chatRouter.post('/:conversationId/branch', async (req, res) => {
   try {
     const id = Number(req.params.conversationId);
-    const message = String(req.body.message || '');
-    if (!message.trim()) return res.status(400).json({ error: 'Message is required' });
+    const messageId = Number(req.body.messageId);
+    if (!messageId) return res.status(400).json({ error: 'messageId is required' });
 
-    // Set SSE headers
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
+    const conv = await switchBranch(id, messageId);
+    res.json(conv);
+  } catch (err) {
+    if (err instanceof ReplyError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+    console.error(err);
+    res.status(500).json({ error: 'Failed to switch branch' });
+  }
+});
 
-    // Initial event to confirm stream open
-    res.write(`data: ${JSON.stringify({ event: 'start' })}\n\n`);
+// Rate an assistant reply (thumbs up/down with an optional comment)
+chatRouter.post('/:conversationId/messages/:messageId/feedback', async (req, res) => {
+  try {
+    const conversationId = Number(req.params.conversationId);
+    const messageId = Number(req.params.messageId);
+    const rating = req.body.rating as FeedbackRating;
+    const comment = typeof req.body.comment === 'string' ? req.body.comment : undefined;
 
-    await appendMessage(id, 'user', message);
+    if (!FEEDBACK_RATINGS.includes(rating)) {
+      return res.status(400).json({ error: `Rating must be one of: ${FEEDBACK_RATINGS.join(', ')}` });
+    }
 
-    const { full, sources } = await streamReply(id, message, (delta, _isFinal) => {
-      const payload = { event: 'delta', delta };
-      res.write(`data: ${JSON.stringify(payload)}\n\n`);
-    });
+    const feedback = await recordFeedback(conversationId, messageId, rating, comment);
+    if (!feedback) return res.status(404).json({ error: 'Message not found' });
 
-    const endPayload = { event: 'end', full, sources };
-    res.write(`data: ${JSON.stringify(endPayload)}\n\n`);
-    res.end();
+    res.json({ feedback });
   } catch (err) {
     console.error(err);
-    if (!res.headersSent) {
-      res.status(500).json({ error: 'Failed to stream message' });
-    } else {
-      res.write(`data: ${JSON.stringify({ event: 'error', error: 'Failed to stream message' })}\n\n`);
-      res.end();
-    }
+    res.status(500).json({ error: 'Failed to save feedback' });
   }
 });
@@ -0,0 +1,188 @@
+/**
+ * Chat WebSocket
+ *
+ * Bidirectional alternative to the SSE chat routes, served at `/api/chat/ws`.
+ * Clients send JSON requests tagged with their own `requestId`; any number can be in
+ * flight on one connection. Reply events use the same vocabulary as SSE (start, sources,
+ * delta, tool_call, tool_result, usage, end, error) and carry the `requestId` and event `id`.
+ *
+ * Requests:
+ *   { type: 'send', requestId, conversationId, message, model?, fileIds? }
+ *   { type: 'regenerate', requestId, conversationId, messageId?, model? }
+ *   { type: 'edit', requestId, conversationId, messageId, message, model? }
+ *   { type: 'resume', requestId, conversationId, lastEventId? }
+ *   { type: 'stop', requestId }
+ *   { type: 'subscribe', conversationId }
+ *   { type: 'typing', conversationId, typing }
+ *
+ * Requests that generate a reply are checked against the agent's limits (chat/limits.ts) and
+ * refused with `{ event: 'error', status: 429, error, code, retryAfter }`.
+ *
+ * A connection receives the conversation events (typing, pushed messages, status) of every
+ * conversation it has sent a request for or subscribed to.
+ */
+
+import { Server, IncomingMessage } from 'http';
+import type { Express } from 'express';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { replyPipeline, regenerateReply, editAndResend } from '../chat/chatService';
+import { ReplyResult } from '../chat/replyPipeline';
+import { ReplyStream, ReplyStreamHooks, runReplyStream, findReplyStream } from '../chat/replyStreams';
+import { subscribeToConversation, publishConversationEvent, ConversationListener } from '../chat/conversationEvents';
+import { checkChatLimits } from '../chat/limits';
+import { parseModel, parseFileIds } from './chatParams';
+
+export const CHAT_SOCKET_PATH = '/api/chat/ws';
+
+type Runner = (hooks: ReplyStreamHooks) => Promise<ReplyResult>;
+
+/**
+ * Build the reply for a send/regenerate/edit request, or return the validation error
+ */
+function toRunner(request: any, conversationId: number): Runner | string {
+  const model = parseModel(request);
+  const message = String(request.message || '');
+
+  switch (request.type) {
+    case 'send': {
+      const attachmentIds = parseFileIds(request);
+      if (!message.trim() && !attachmentIds.length) return 'Message is required';
+      return (hooks) => replyPipeline.run(conversationId, message, { model, attachmentIds, ...hooks });
+    }
+    case 'regenerate': {
+      const messageId = request.messageId !== undefined ? Number(request.messageId) : undefined;
+      return (hooks) => regenerateReply(conversationId, messageId, { model, ...hooks });
+    }
+    case 'edit':
+      if (!message.trim()) return 'Message is required';
+      if (!Number(request.messageId)) return 'messageId is required';
+      return (hooks) => editAndResend(conversationId, Number(request.messageId), message, { model, ...hooks });
+    default:
+      return `Unknown request type: ${request.type}`;
+  }
+}
+
+// The client address as Express reports it for HTTP requests, following the app's `trust proxy`
+function clientIp(upgrade: IncomingMessage, trust: (addr: string, i: number) => boolean): string | undefined {
+  const forwarded = String(upgrade.headers['x-forwarded-for'] || '')
+    .split(',')
+    .map((addr) => addr.trim())
+    .filter(Boolean)
+    .reverse();
+  const addrs = [upgrade.socket.remoteAddress || '', ...forwarded];
+  let i = 0;
+  while (i < addrs.length - 1 && trust(addrs[i]!, i)) i++;
+  return addrs[i] || undefined;
+}
+
+function handleConnection(socket: WebSocket, ip: string | undefined) {
+  // Reply streams this connection follows, by client request id
+  const requests = new Map<string, { stream: ReplyStream; unsubscribe: () => void }>();
+  // Conversation event subscriptions, by conversation id
+  const conversations = new Map<number, { listener: ConversationListener; unsubscribe: () => void }>();
+
+  const send = (payload: Record<string, unknown>) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(payload));
+  };
+
+  const subscribe = (conversationId: number) => {
+    if (conversations.has(conversationId)) return conversations.get(conversationId)!.listener;
+    const listener: ConversationListener = (payload) => send(payload);
+    conversations.set(conversationId, { listener, unsubscribe: subscribeToConversation(conversationId, listener) });
+    return listener;
+  };
+
+  // Forward a reply stream's events, replaying those after `lastEventId`
+  const follow = (requestId: string, stream: ReplyStream, lastEventId?: string) => {
+    requests.get(requestId)?.unsubscribe();
+
+    const entry = { stream, unsubscribe: () => {} };
+    requests.set(requestId, entry);
+    entry.unsubscribe = stream.subscribe(lastEventId, (event) => {
+      send({ requestId, id: event.id, ...event.payload });
+      if (event.final && requests.get(requestId) === entry) requests.delete(requestId);
+    });
+  };
+
+  const handleRequest = (request: any) => {
+    const requestId = typeof request.requestId === 'string' ? request.requestId : '';
+    const conversationId = Number(request.conversationId);
+    const fail = (status: number, error: string) => send({ requestId, event: 'error', status, error });
+
+    if (request.type === 'stop') {
+      requests.get(requestId)?.stream.stop();
+      return;
+    }
+
+    if (!conversationId) return fail(400, 'conversationId is required');
+
+    switch (request.type) {
+      case 'subscribe':
+        subscribe(conversationId);
+        return;
+      case 'typing':
+        publishConversationEvent(
+          conversationId,
+          // The socket is public, so typing is always the user's; operators go through the admin API
+          { event: 'typing', role: 'user', typing: request.typing === true },
+          subscribe(conversationId)
+        );
+        return;
+      case 'resume': {
+        if (!requestId) return fail(400, 'requestId is required');
+        const lastEventId = typeof request.lastEventId === 'string' ? request.lastEventId : undefined;
+        const stream = findReplyStream(conversationId, lastEventId);
+        if (!stream) return fail(404, 'No reply to resume');
+        subscribe(conversationId);
+        follow(requestId, stream, lastEventId);
+        return;
+      }
+    }
+
+    if (!requestId) return fail(400, 'requestId is required');
+    const run = toRunner(request, conversationId);
+    if (typeof run === 'string') return fail(400, run);
+
+    checkChatLimits(conversationId, ip)
+      .catch((err) => {
+        // Same as HTTP: a failed check lets the reply through
+        console.error('[chat-ws] Failed to check limits:', err);
+        return null;
+      })
+      .then((exceeded) => {
+        if (exceeded) {
+          const { message: error, code, retryAfter } = exceeded;
+          return send({ requestId, event: 'error', status: 429, error, code, retryAfter });
+        }
+        subscribe(conversationId);
+        follow(requestId, runReplyStream(conversationId, run));
+      });
+  };
+
+  socket.on('message', (data: RawData) => {
+    let request: any;
+    try {
+      request = JSON.parse(data.toString());
+    } catch {
+      return send({ event: 'error', status: 400, error: 'Invalid JSON' });
+    }
+    handleRequest(request || {});
+  });
+
+  // Replies keep running for a while so the client can reconnect and resume them
+  socket.on('close', () => {
+    for (const { unsubscribe } of requests.values()) unsubscribe();
+    for (const { unsubscribe } of conversations.values()) unsubscribe();
+    requests.clear();
+    conversations.clear();
+  });
+}
+
+/**
+ * Serve the chat WebSocket on the HTTP server
+ */
+export function attachChatSocket(server: Server, app: Express) {
+  const wss = new WebSocketServer({ server, path: CHAT_SOCKET_PATH });
+  wss.on('connection', (socket, upgrade) => handleConnection(socket, clientIp(upgrade, app.get('trust proxy fn'))));
+  wss.on('error', (err) => console.error('[chat-ws] Server error:', err));
+}
@@ -1,9 +1,12 @@
 import { loadConfig } from './config/appConfig';
 import { createHttpApp } from './http/app';
+import { attachChatSocket } from './http/chatSocket';
 import { getOrchestrator } from './mcp-hub';
 import { anyapiServer } from './mcp-hub/servers/anyapi';
 import { capabilityService } from './capabilities';
 import { initializeDatabase } from './db/init';
+import { loadModelCatalog } from './llm';
+import { startConversationIndexExpiry } from './rag/conversationIndex';
 import { initializeLicensing, getFeatures } from './licensing';
 
 const config = loadConfig();
@@ -48,7 +51,7 @@ async function initializeCapabilities() {
 }
 
 // Start server
-app.listen(config.port, async () => {
+const server = app.listen(config.port, async () => {
   console.log(`Agent-in-a-Box server listening on port ${config.port}`);
 
   // Initialize licensing FIRST (before anything else)
@@ -57,7 +60,16 @@ app.listen(config.port, async () => {
   // Initialize database (pgvector extension, migrations)
   await initializeDatabase();
 
+  // Seed and cache the model catalog; the built-in defaults are used until it loads
+  await loadModelCatalog().catch((err) => console.error('[server] Failed to load model catalog:', err));
+
+  // Drop knowledge from files attached to expired conversations
+  startConversationIndexExpiry();
+
   // Initialize MCP Hub and capabilities after server starts (if licensed)
   await initializeMCPHub();
   await initializeCapabilities();
 });
+
+// WebSocket chat transport shares the HTTP port
+attachChatSocket(server, app);
@@ -0,0 +1,91 @@
+/**
+ * Provider Circuit Breakers
+ *
+ * Consecutive transient failures (rate limits, overloads, timeouts) open a provider's
+ * circuit for a cool-down period, so fallback chains skip its models instead of waiting
+ * on a vendor that is having an incident. Once the cool-down ends, requests go through
+ * again: a success closes the circuit, another failure re-opens it.
+ *
+ * Circuits are kept per endpoint and API key, so an agent whose own key is rate-limited
+ * does not take the provider away from agents calling it with other keys.
+ * State is kept per server process.
+ */
+
+import { ModelProvider } from './modelCatalog';
+
+const FAILURE_THRESHOLD = 5;
+const OPEN_MS = 30 * 1000;
+
+// A provider as called with one base URL and API key (see getProviderEndpoint in index.ts)
+export interface ProviderEndpoint {
+  provider: ModelProvider;
+  baseUrl: string | null;
+  // Provider, base URL and a hash of the API key; also keys the provider instance cache
+  key: string;
+}
+
+interface CircuitState {
+  endpoint: ProviderEndpoint;
+  agentIds: Set<string>; // agents whose calls failed, for the admin model list
+  failures: number; // consecutive transient failures
+  openUntil: number; // epoch ms; 0 while closed
+}
+
+const circuits = new Map<string, CircuitState>();
+
+/**
+ * Whether an error is worth retrying: rate limits, overloads, server errors and
+ * dropped or timed-out connections. Bad requests and auth errors are not.
+ */
+export function isTransientError(err: any): boolean {
+  const status = Number(err?.status);
+  if (status) return status === 408 || status === 409 || status === 429 || status >= 500;
+  // Network failures carry no status; Anthropic reports mid-stream overloads as error events
+  return /timeout|timed out|connection|ECONNRESET|ECONNREFUSED|ETIMEDOUT|fetch failed|overloaded/i.test(
+    `${err?.name} ${err?.code} ${err?.message}`
+  );
+}
+
+export function isCircuitOpen(endpoint: ProviderEndpoint): boolean {
+  const state = circuits.get(endpoint.key);
+  return !!state && state.openUntil > Date.now();
+}
+
+export function recordProviderSuccess(endpoint: ProviderEndpoint): void {
+  circuits.delete(endpoint.key);
+}
+
+export function recordProviderFailure(endpoint: ProviderEndpoint, agentId: string): void {
+  const state = circuits.get(endpoint.key) || { endpoint, agentIds: new Set<string>(), failures: 0, openUntil: 0 };
+  state.agentIds.add(agentId);
+  state.failures++;
+  if (state.failures >= FAILURE_THRESHOLD) {
+    if (state.openUntil <= Date.now()) {
+      console.warn(
+        `[agentinabox-llm] ${endpoint.provider} circuit (${[...state.agentIds].join(', ')}) opened for ` +
+          `${OPEN_MS / 1000}s after ${state.failures} consecutive failures`
+      );
+    }
+    state.openUntil = Date.now() + OPEN_MS;
+  }
+  circuits.set(endpoint.key, state);
+}
+
+/**
+ * Provider endpoints with recent failures, for the admin model list
+ */
+export function getCircuitStatus(): {
+  provider: ModelProvider;
+  baseUrl: string | null;
+  agentIds: string[];
+  failures: number;
+  openUntil: Date | null;
+}[] {
+  return [...circuits.values()].map((state) => ({
+    provider: state.endpoint.provider,
+    baseUrl: state.endpoint.baseUrl,
+    agentIds: [...state.agentIds],
+    failures: state.failures,
+    openUntil: state.openUntil > Date.now() ? new Date(state.openUntil) : null,
+  }));
+}
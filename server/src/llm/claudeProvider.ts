@@ -1,52 +1,223 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { LLMMessage, LLMProvider, GenerateOptions, StreamOptions, LLMStreamChunk } from './types';
+import {
+  LLMMessage,
+  LLMProvider,
+  LLMResponse,
+  GenerateOptions,
+  StreamOptions,
+  LLMStreamChunk,
+  ToolGenerateOptions,
+  ToolStreamOptions,
+  LLMToolResponse,
+  LLMToolCall,
+  LLMToolDefinition,
+  LLMStopReason,
+  LLMUsage,
+} from './types';
 import { loadConfig } from '../config/appConfig';
 
-const anthropicApiKey = process.env.ANTHROPIC_API_KEY;
-
-if (!anthropicApiKey) {
-  console.warn('[agentinabox-llm] ANTHROPIC_API_KEY is not set. Claude provider will not work until configured.');
+if (!process.env.ANTHROPIC_API_KEY) {
+  console.warn('[agentinabox-llm] ANTHROPIC_API_KEY is not set. Claude models will only work for agents with their own key.');
 }
 
-const client = new Anthropic({ apiKey: anthropicApiKey || 'missing-key' });
-
-function toAnthropicMessages(messages: LLMMessage[]): Anthropic.Messages.MessageParam[] {
+function toAnthropicMessages(messages: LLMMessage[]): {
+  system: string | undefined;
+  messages: Anthropic.Messages.MessageParam[];
+} {
   // Anthropic expects a single system prompt and then user/assistant messages.
-  // For simplicity, we extract the last system message (if any) and prepend it via system param.
+  // System messages are joined and passed via the system param.
   // The caller is responsible for building a good prompt.
   const systemParts = messages.filter((m) => m.role === 'system').map((m) => m.content);
   const system = systemParts.length ? systemParts.join('\n\n') : undefined;
 
-  const nonSystem = messages.filter((m) => m.role !== 'system');
+  const result: Anthropic.Messages.MessageParam[] = [];
+
+  for (const m of messages) {
+    if (m.role === 'system') continue;
+
+    if (m.role === 'tool') {
+      // Tool results are sent back as user turns; consecutive results share one turn
+      const block: Anthropic.Messages.ToolResultBlockParam = {
+        type: 'tool_result',
+        tool_use_id: m.toolCallId || '',
+        content: m.content,
+      };
+      const last = result[result.length - 1];
+      if (last && last.role === 'user' && Array.isArray(last.content)) {
+        last.content.push(block);
+      } else {
+        result.push({ role: 'user', content: [block] });
+      }
+      continue;
+    }
+
+    if (m.role === 'assistant' && m.toolCalls?.length) {
+      // Thinking blocks come first, unchanged, so Claude can continue its reasoning
+      const blocks: Anthropic.Messages.ContentBlockParam[] = [
+        ...((m.reasoning || []) as Anthropic.Messages.ContentBlockParam[]),
+      ];
+      if (m.content) {
+        blocks.push({ type: 'text', text: m.content });
+      }
+      for (const call of m.toolCalls) {
+        blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+      }
+      result.push({ role: 'assistant', content: blocks });
+      continue;
+    }
+
+    if (m.role === 'user' && m.images?.length) {
+      const blocks: Anthropic.Messages.ContentBlockParam[] = m.images.map((image) => ({
+        type: 'image',
+        source: { type: 'base64', media_type: image.mimeType, data: image.data },
+      }));
+      blocks.push({ type: 'text', text: m.content });
+      result.push({ role: 'user', content: blocks });
+      continue;
+    }
+
+    result.push({ role: m.role, content: m.content });
+  }
+
+  return { system, messages: result };
+}
+
+function toAnthropicTools(tools: LLMToolDefinition[]): Anthropic.Messages.Tool[] {
+  return tools.map((t) => ({
+    name: t.name,
+    description: t.description,
+    input_schema: t.inputSchema as Anthropic.Messages.Tool.InputSchema,
+  }));
+}
+
+function toStopReason(reason: Anthropic.Messages.StopReason | null): LLMStopReason {
+  switch (reason) {
+    case 'end_turn':
+    case 'tool_use':
+    case 'max_tokens':
+    case 'stop_sequence':
+      return reason;
+    default:
+      return 'other';
+  }
+}
+
+function toUsage(usage: Anthropic.Messages.Usage): LLMUsage {
+  return { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens };
+}
+
+function toToolResponse(message: Anthropic.Messages.Message): LLMToolResponse {
+  let content = '';
+  const toolCalls: LLMToolCall[] = [];
+  const reasoning: (Anthropic.Messages.ThinkingBlockParam | Anthropic.Messages.RedactedThinkingBlockParam)[] = [];
+
+  for (const block of message.content) {
+    if (block.type === 'thinking') {
+      reasoning.push({ type: 'thinking', thinking: block.thinking, signature: block.signature });
+    } else if (block.type === 'redacted_thinking') {
+      reasoning.push({ type: 'redacted_thinking', data: block.data });
+    } else if (block.type === 'text') {
+      content += block.text;
+    } else if (block.type === 'tool_use') {
+      toolCalls.push({
+        id: block.id,
+        name: block.name,
+        arguments: (block.input as Record<string, unknown>) || {},
+      });
+    }
+  }
+
+  return {
+    content,
+    toolCalls,
+    stopReason: toStopReason(message.stop_reason),
+    usage: toUsage(message.usage),
+    ...(reasoning.length ? { reasoning } : {}),
+  };
+}
+
+// With thinking on, Claude rejects tool calls sent back without their thinking blocks, e.g.
+// when a fallback chain switched to Claude partway through a tool loop
+function canThink(messages: LLMMessage[]): boolean {
+  return messages.every((m) => m.role !== 'assistant' || !m.toolCalls?.length || !!m.reasoning?.length);
+}
+
+// Output limit, sampling and thinking parameters. Thinking needs the default temperature and top_p.
+function toRequestParams(options: GenerateOptions, allowThinking: boolean) {
+  const maxTokens = options.maxTokens || 1024;
+  const budget = allowThinking ? options.thinkingBudgetTokens : undefined;
+  // The budget must leave room for the answer
+  const thinking = budget && budget < maxTokens ? budget : null;
 
   return {
-    system,
-    messages: nonSystem.map((m) => ({ role: m.role as 'user' | 'assistant', content: m.content })),
-  } as unknown as Anthropic.Messages.MessageParam[];
+    max_tokens: maxTokens,
+    ...(thinking
+      ? { thinking: { type: 'enabled' as const, budget_tokens: thinking } }
+      : {
+          // Claude accepts temperatures up to 1
+          ...(options.temperature !== undefined ? { temperature: Math.min(options.temperature, 1) } : {}),
+          ...(options.topP !== undefined ? { top_p: options.topP } : {}),
+        }),
+    ...(options.stopSequences?.length ? { stop_sequences: options.stopSequences } : {}),
+  };
 }
 
 export class ClaudeProvider implements LLMProvider {
   id = 'claude';
+  private client: Anthropic;
+
+  constructor(apiKey: string | undefined) {
+    this.client = new Anthropic({
+      apiKey: apiKey || 'missing-key',
+      // Without an explicit timeout the SDK refuses non-streamed calls with large output
+      // limits; fallback chains time out their attempts themselves
+      timeout: 10 * 60 * 1000,
+    });
+  }
 
-  async generate(messages: LLMMessage[], options: GenerateOptions): Promise<string> {
+  async generate(messages: LLMMessage[], options: GenerateOptions): Promise<LLMResponse> {
     const config = loadConfig();
     const model = options.model || config.agents[0]?.defaultModel || 'claude-3-5-sonnet-latest';
 
-    const { system, messages: coreMessages } = toAnthropicMessages(messages) as any;
+    const { system, messages: coreMessages } = toAnthropicMessages(messages);
 
-    const response = await client.messages.create({
-      model,
-      max_tokens: options.maxTokens || 1024,
-      system,
-      messages: coreMessages,
-    });
+    const response = await this.client.messages.create(
+      {
+        model,
+        ...toRequestParams(options, true),
+        ...(system ? { system } : {}),
+        messages: coreMessages,
+      },
+      { signal: options.signal }
+    );
 
     const content = response.content
       .filter((c) => c.type === 'text')
       .map((c: any) => c.text)
       .join('');
 
-    return content;
+    return { content, usage: toUsage(response.usage) };
+  }
+
+  async generateWithTools(messages: LLMMessage[], options: ToolGenerateOptions): Promise<LLMToolResponse> {
+    const config = loadConfig();
+    const model = options.model || config.agents[0]?.defaultModel || 'claude-3-5-sonnet-latest';
+
+    const { system, messages: coreMessages } = toAnthropicMessages(messages);
+
+    const response = await this.client.messages.create(
+      {
+        model,
+        ...toRequestParams(options, canThink(messages)),
+        ...(system ? { system } : {}),
+        messages: coreMessages,
+        tools: toAnthropicTools(options.tools),
+        tool_choice: { type: options.toolChoice || 'auto' },
+      },
+      { signal: options.signal }
+    );
+
+    return toToolResponse(response);
   }
 
   async stream(
@@ -57,25 +228,77 @@ export class ClaudeProvider implements LLMProvider {
     const config = loadConfig();
     const model = options.model || config.agents[0]?.defaultModel || 'claude-3-5-sonnet-latest';
 
-    const { system, messages: coreMessages } = toAnthropicMessages(messages) as any;
+    const { system, messages: coreMessages } = toAnthropicMessages(messages);
 
-    const stream = await client.messages.stream({
-      model,
-      max_tokens: options.maxTokens || 1024,
-      system,
-      messages: coreMessages,
-    });
+    const stream = await this.client.messages.stream(
+      {
+        model,
+        ...toRequestParams(options, true),
+        ...(system ? { system } : {}),
+        messages: coreMessages,
+      },
+      { signal: options.signal }
+    );
 
     let full = '';
 
     for await (const event of stream) {
-      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+      if (event.type !== 'content_block_delta') continue;
+      // Thinking deltas produce no text but show the model is working
+      if (event.delta.type === 'text_delta') {
         const delta = event.delta.text || '';
         full += delta;
         onChunk({ type: 'delta', content: delta });
+      } else {
+        onChunk({ type: 'progress', content: '' });
       }
     }
 
-    onChunk({ type: 'final', content: full });
+    const message = await stream.finalMessage();
+    onChunk({ type: 'final', content: full, usage: toUsage(message.usage) });
+  }
+
+  async streamWithTools(
+    messages: LLMMessage[],
+    options: ToolStreamOptions,
+    onChunk: (chunk: LLMStreamChunk) => void
+  ): Promise<LLMToolResponse> {
+    const config = loadConfig();
+    const model = options.model || config.agents[0]?.defaultModel || 'claude-3-5-sonnet-latest';
+
+    const { system, messages: coreMessages } = toAnthropicMessages(messages);
+
+    const stream = await this.client.messages.stream(
+      {
+        model,
+        ...toRequestParams(options, canThink(messages)),
+        ...(system ? { system } : {}),
+        messages: coreMessages,
+        tools: toAnthropicTools(options.tools),
+        tool_choice: { type: options.toolChoice || 'auto' },
+      },
+      { signal: options.signal }
+    );
+
+    for await (const event of stream) {
+      if (event.type !== 'content_block_delta') continue;
+      // Thinking and tool input deltas produce no text but show the model is working
+      if (event.delta.type === 'text_delta') {
+        onChunk({ type: 'delta', content: event.delta.text || '' });
+      } else {
+        onChunk({ type: 'progress', content: '' });
+      }
+    }
+
+    // Tool inputs arrive as partial JSON; the final message has them fully parsed
+    const response = toToolResponse(await stream.finalMessage());
+
+    for (const toolCall of response.toolCalls) {
+      onChunk({ type: 'tool_call', content: '', toolCall });
+    }
+
+    onChunk({ type: 'final', content: response.content, usage: response.usage });
+
+    return response;
   }
 }
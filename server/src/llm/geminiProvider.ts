@@ -1,41 +1,238 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { LLMMessage, LLMProvider, GenerateOptions, StreamOptions, LLMStreamChunk } from './types';
+import {
+  GoogleGenerativeAI,
+  Content,
+  Part,
+  FunctionDeclarationSchema,
+  FunctionCallingMode,
+  FinishReason,
+  GenerateContentRequest,
+  EnhancedGenerateContentResponse,
+  SingleRequestOptions,
+  UsageMetadata,
+} from '@google/generative-ai';
+import {
+  LLMMessage,
+  LLMProvider,
+  LLMResponse,
+  GenerateOptions,
+  StreamOptions,
+  LLMStreamChunk,
+  ToolGenerateOptions,
+  ToolStreamOptions,
+  LLMToolResponse,
+  LLMToolCall,
+  LLMToolDefinition,
+  LLMStopReason,
+  LLMUsage,
+} from './types';
 
-const geminiApiKey = process.env.GEMINI_API_KEY;
+if (!process.env.GEMINI_API_KEY) {
+  console.warn('[agentinabox-llm] GEMINI_API_KEY is not set. Gemini models will only work for agents with their own key.');
+}
+
+type JsonSchema = Record<string, any>;
 
-if (!geminiApiKey) {
-  console.warn('[agentinabox-llm] GEMINI_API_KEY is not set. Gemini provider will not work until configured.');
+// Gemini rejects objects without properties and untyped values, so those are
+// declared as JSON-encoded strings and decoded again in decodeArguments().
+function isFreeForm(schema: JsonSchema): boolean {
+  if (!schema.type) return true;
+  return schema.type === 'object' && !Object.keys(schema.properties || {}).length;
 }
 
-const genAI = new GoogleGenerativeAI(geminiApiKey || 'missing-key');
+function toGeminiSchema(schema: JsonSchema): any {
+  if (isFreeForm(schema)) {
+    const description = [schema.description, '(JSON-encoded value)'].filter(Boolean).join(' ');
+    return { type: 'string', description };
+  }
 
-export class GeminiProvider implements LLMProvider {
-  id = 'gemini';
+  const out: any = { type: schema.type };
+  if (schema.description) out.description = schema.description;
 
-  async generate(messages: LLMMessage[], options: GenerateOptions): Promise<string> {
-    const modelName = options.model || 'gemini-2.5-flash-preview-05-20';
-    const model = genAI.getGenerativeModel({ model: modelName });
+  if (schema.type === 'string' && Array.isArray(schema.enum)) {
+    out.format = 'enum';
+    out.enum = schema.enum;
+  } else if (schema.type === 'array') {
+    out.items = toGeminiSchema(schema.items || {});
+  } else if (schema.type === 'object') {
+    out.properties = {};
+    for (const [key, prop] of Object.entries(schema.properties || {})) {
+      out.properties[key] = toGeminiSchema(prop as JsonSchema);
+    }
+    if (Array.isArray(schema.required) && schema.required.length) {
+      out.required = schema.required;
+    }
+  }
+
+  return out;
+}
+
+function decodeArguments(args: Record<string, unknown>, schema: JsonSchema): Record<string, unknown> {
+  const decoded: Record<string, unknown> = { ...args };
+  for (const [key, prop] of Object.entries((schema.properties || {}) as Record<string, JsonSchema>)) {
+    const value = decoded[key];
+    if (typeof value !== 'string') continue;
+    if (isFreeForm(prop)) {
+      try {
+        decoded[key] = JSON.parse(value);
+      } catch {
+        // Leave plain strings as-is
+      }
+    }
+  }
+  return decoded;
+}
+
+function toGeminiContents(messages: LLMMessage[]): { systemInstruction: string | undefined; contents: Content[] } {
+  const systemParts = messages.filter((m) => m.role === 'system').map((m) => m.content);
+  const systemInstruction = systemParts.length ? systemParts.join('\n\n') : undefined;
+
+  // Gemini function responses are matched by name, so remember which call id used which tool
+  const toolNames = new Map<string, string>();
+  const contents: Content[] = [];
+
+  for (const m of messages) {
+    if (m.role === 'system') continue;
 
-    // Convert messages to Gemini format
-    const systemMessage = messages.find((m) => m.role === 'system');
-    const chatMessages = messages.filter((m) => m.role !== 'system');
+    if (m.role === 'tool') {
+      const part: Part = {
+        functionResponse: {
+          name: toolNames.get(m.toolCallId || '') || 'unknown',
+          response: { content: m.content },
+        },
+      };
+      const last = contents[contents.length - 1];
+      if (last && last.role === 'function') {
+        last.parts.push(part);
+      } else {
+        contents.push({ role: 'function', parts: [part] });
+      }
+      continue;
+    }
+
+    if (m.role === 'assistant') {
+      const parts: Part[] = [];
+      if (m.content) parts.push({ text: m.content });
+      for (const call of m.toolCalls || []) {
+        toolNames.set(call.id, call.name);
+        parts.push({ functionCall: { name: call.name, args: call.arguments } });
+      }
+      contents.push({ role: 'model', parts });
+      continue;
+    }
 
-    const history = chatMessages.slice(0, -1).map((m) => ({
-      role: m.role === 'assistant' ? 'model' : 'user',
-      parts: [{ text: m.content }],
+    const parts: Part[] = (m.images || []).map((image) => ({
+      inlineData: { mimeType: image.mimeType, data: image.data },
     }));
+    parts.push({ text: m.content });
+    contents.push({ role: 'user', parts });
+  }
+
+  return { systemInstruction, contents };
+}
+
+function toFunctionDeclarations(tools: LLMToolDefinition[]) {
+  return tools.map((t) => ({
+    name: t.name,
+    description: t.description,
+    parameters: toGeminiSchema(t.inputSchema) as FunctionDeclarationSchema,
+  }));
+}
 
-    const lastMessage = chatMessages[chatMessages.length - 1];
+function buildRequest(messages: LLMMessage[], options: GenerateOptions | ToolGenerateOptions): GenerateContentRequest {
+  const { systemInstruction, contents } = toGeminiContents(messages);
 
-    const chatOptions: any = { history };
-    if (systemMessage?.content) {
-      chatOptions.systemInstruction = systemMessage.content;
+  const request: GenerateContentRequest = {
+    contents,
+    generationConfig: {
+      maxOutputTokens: options.maxTokens || 1024,
+      ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+      ...(options.topP !== undefined ? { topP: options.topP } : {}),
+      ...(options.stopSequences?.length ? { stopSequences: options.stopSequences } : {}),
+    },
+  };
+  if (systemInstruction) {
+    request.systemInstruction = systemInstruction;
+  }
+
+  if ('tools' in options) {
+    request.tools = [{ functionDeclarations: toFunctionDeclarations(options.tools) }];
+    request.toolConfig = {
+      functionCallingConfig: {
+        mode: options.toolChoice === 'none' ? FunctionCallingMode.NONE : FunctionCallingMode.AUTO,
+      },
+    };
+  }
+
+  return request;
+}
+
+// The SDK rejects an explicit undefined signal, so only set it when present
+function toRequestOptions(options: GenerateOptions): SingleRequestOptions {
+  return options.signal ? { signal: options.signal } : {};
+}
+
+function toUsage(usage: UsageMetadata | undefined): LLMUsage | undefined {
+  return usage ? { inputTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount } : undefined;
+}
+
+function toToolResponse(response: EnhancedGenerateContentResponse, tools: LLMToolDefinition[]): LLMToolResponse {
+  const candidate = response.candidates?.[0];
+  const parts = candidate?.content?.parts || [];
+  let content = '';
+  const toolCalls: LLMToolCall[] = [];
+
+  parts.forEach((part, index) => {
+    if (part.text) {
+      content += part.text;
+    } else if (part.functionCall) {
+      const tool = tools.find((t) => t.name === part.functionCall?.name);
+      const args = (part.functionCall.args || {}) as Record<string, unknown>;
+      toolCalls.push({
+        // Gemini does not assign call ids, so derive a stable one per response
+        id: `${part.functionCall.name}-${Date.now()}-${index}`,
+        name: part.functionCall.name,
+        arguments: tool ? decodeArguments(args, tool.inputSchema) : args,
+      });
     }
+  });
+
+  // Gemini reports STOP for function calls as well as plain answers
+  let stopReason: LLMStopReason;
+  if (toolCalls.length) {
+    stopReason = 'tool_use';
+  } else if (candidate?.finishReason === FinishReason.STOP) {
+    stopReason = 'end_turn';
+  } else if (candidate?.finishReason === FinishReason.MAX_TOKENS) {
+    stopReason = 'max_tokens';
+  } else {
+    stopReason = 'other';
+  }
+
+  return { content, toolCalls, stopReason, usage: toUsage(response.usageMetadata) };
+}
 
-    const chat = model.startChat(chatOptions);
+export class GeminiProvider implements LLMProvider {
+  id = 'gemini';
+  private genAI: GoogleGenerativeAI;
 
-    const result = await chat.sendMessage(lastMessage?.content || '');
-    return result.response.text();
+  constructor(apiKey: string | undefined) {
+    this.genAI = new GoogleGenerativeAI(apiKey || 'missing-key');
+  }
+
+  async generate(messages: LLMMessage[], options: GenerateOptions): Promise<LLMResponse> {
+    const modelName = options.model || 'gemini-2.5-flash-preview-05-20';
+    const model = this.genAI.getGenerativeModel({ model: modelName });
+
+    const result = await model.generateContent(buildRequest(messages, options), toRequestOptions(options));
+    return { content: result.response.text(), usage: toUsage(result.response.usageMetadata) };
+  }
+
+  async generateWithTools(messages: LLMMessage[], options: ToolGenerateOptions): Promise<LLMToolResponse> {
+    const modelName = options.model || 'gemini-2.5-flash-preview-05-20';
+    const model = this.genAI.getGenerativeModel({ model: modelName });
+
+    const result = await model.generateContent(buildRequest(messages, options), toRequestOptions(options));
+    return toToolResponse(result.response, options.tools);
   }
 
   async stream(
@@ -44,31 +241,14 @@ export class GeminiProvider implements LLMProvider {
     onChunk: (chunk: LLMStreamChunk) => void
   ): Promise<void> {
     const modelName = options.model || 'gemini-2.5-flash-preview-05-20';
-    const model = genAI.getGenerativeModel({ model: modelName });
-
-    // Convert messages to Gemini format
-    const systemMessage = messages.find((m) => m.role === 'system');
-    const chatMessages = messages.filter((m) => m.role !== 'system');
-
-    const history = chatMessages.slice(0, -1).map((m) => ({
-      role: m.role === 'assistant' ? 'model' : 'user',
-      parts: [{ text: m.content }],
-    }));
+    const model = this.genAI.getGenerativeModel({ model: modelName });
 
-    const lastMessage = chatMessages[chatMessages.length - 1];
-
-    const chatOptions: any = { history };
-    if (systemMessage?.content) {
-      chatOptions.systemInstruction = systemMessage.content;
-    }
-
-    const chat = model.startChat(chatOptions);
-
-    const result = await chat.sendMessageStream(lastMessage?.content || '');
+    const result = await model.generateContentStream(buildRequest(messages, options), toRequestOptions(options));
 
     let full = '';
 
     for await (const chunk of result.stream) {
+      options.signal?.throwIfAborted();
       const text = chunk.text();
       if (text) {
         full += text;
@@ -76,6 +256,38 @@ export class GeminiProvider implements LLMProvider {
       }
     }
 
-    onChunk({ type: 'final', content: full });
+    const response = await result.response;
+    onChunk({ type: 'final', content: full, usage: toUsage(response.usageMetadata) });
+  }
+
+  async streamWithTools(
+    messages: LLMMessage[],
+    options: ToolStreamOptions,
+    onChunk: (chunk: LLMStreamChunk) => void
+  ): Promise<LLMToolResponse> {
+    const modelName = options.model || 'gemini-2.5-flash-preview-05-20';
+    const model = this.genAI.getGenerativeModel({ model: modelName });
+
+    const result = await model.generateContentStream(buildRequest(messages, options), toRequestOptions(options));
+
+    for await (const chunk of result.stream) {
+      options.signal?.throwIfAborted();
+      const text = (chunk.candidates?.[0]?.content?.parts || [])
+        .map((part) => part.text || '')
+        .join('');
+      // Chunks holding only function calls still show the model is working
+      onChunk(text ? { type: 'delta', content: text } : { type: 'progress', content: '' });
+    }
+
+    // Function calls are not split across chunks, so read them from the aggregated response
+    const response = toToolResponse(await result.response, options.tools);
+
+    for (const toolCall of response.toolCalls) {
+      onChunk({ type: 'tool_call', content: '', toolCall });
+    }
+
+    onChunk({ type: 'final', content: response.content, usage: response.usage });
+
+    return response;
   }
 }
@@ -1,60 +1,214 @@
+import crypto from 'crypto';
 import { ClaudeProvider } from './claudeProvider';
-import { GrokProvider } from './grokProvider';
 import { GeminiProvider } from './geminiProvider';
-import { LLMProvider } from './types';
+import { OpenAIProvider } from './openaiProvider';
+import { LLMProvider, LLMUsage } from './types';
+import { getModelInfo, ModelProvider } from './modelCatalog';
+import { ProviderEndpoint } from './circuitBreaker';
+import { getAgentApiKeyWithFallback } from '../capabilities/capabilityService';
 
-// Cached provider instances
+export { listModels, getModelInfo, loadModelCatalog, MODEL_PROVIDERS } from './modelCatalog';
+export type { ModelInfo, ModelPricing, ModelProvider } from './modelCatalog';
+export { getCircuitStatus } from './circuitBreaker';
+export type { ProviderEndpoint } from './circuitBreaker';
+
+if (!process.env.XAI_API_KEY && !process.env.GROK_API_KEY) {
+  console.warn('[agentinabox-llm] XAI_API_KEY is not set. Grok models will only work for agents with their own key.');
+}
+
+// Cached provider instances, by provider, endpoint and API key
 const providers: Record<string, LLMProvider> = {};
 
-function getProvider(providerId: string): LLMProvider {
-  if (!providers[providerId]) {
+// Unknown model names already warned about
+const unknownModels = new Set<string>();
+
+// Per-agent key names (ai_agent_api_keys) for each provider. Local servers share LOCAL_LLM_API_KEY.
+const AGENT_API_KEYS: Partial<Record<ModelProvider, string>> = {
+  claude: 'anthropic_api_key',
+  grok: 'grok_api_key',
+  gemini: 'gemini_api_key',
+  openai: 'openai_api_key',
+};
+
+function getEnvApiKey(providerId: ModelProvider): string | undefined {
+  switch (providerId) {
+    case 'grok':
+      // GROK_API_KEY is the older name, still read when XAI_API_KEY is unset
+      return process.env.XAI_API_KEY || process.env.GROK_API_KEY;
+    case 'gemini':
+      return process.env.GEMINI_API_KEY;
+    case 'openai':
+      return process.env.OPENAI_API_KEY;
+    case 'local':
+      return process.env.LOCAL_LLM_API_KEY;
+    default:
+      return process.env.ANTHROPIC_API_KEY;
+  }
+}
+
+function getProviderEndpoint(
+  providerId: ModelProvider,
+  baseUrl: string | null,
+  apiKey: string | undefined
+): ProviderEndpoint {
+  // Keys are hashed so they never show up in the cache
+  const keyHash = apiKey ? crypto.createHash('sha256').update(apiKey).digest('hex').slice(0, 16) : '';
+  return { provider: providerId, baseUrl, key: `${providerId}|${baseUrl || ''}|${keyHash}` };
+}
+
+function getProvider({ provider: providerId, baseUrl, key }: ProviderEndpoint, apiKey: string | undefined): LLMProvider {
+  if (!providers[key]) {
     switch (providerId) {
       case 'claude':
-        providers[providerId] = new ClaudeProvider();
+        providers[key] = new ClaudeProvider(apiKey);
         break;
       case 'grok':
-        providers[providerId] = new GrokProvider();
+        // xAI serves Grok over the OpenAI chat completions API
+        providers[key] = new OpenAIProvider({
+          id: 'grok',
+          apiKey,
+          baseURL: 'https://api.x.ai/v1',
+          defaultModel: 'grok-3-latest',
+        });
         break;
       case 'gemini':
-        providers[providerId] = new GeminiProvider();
+        providers[key] = new GeminiProvider(apiKey);
+        break;
+      case 'openai':
+        providers[key] = new OpenAIProvider({
+          id: 'openai',
+          apiKey,
+          baseURL: baseUrl || undefined,
+          defaultModel: 'gpt-4.1',
+          maxCompletionTokens: true,
+        });
+        break;
+      case 'local':
+        // OpenAI-compatible server for on-prem inference (vLLM, Ollama, LM Studio)
+        providers[key] = new OpenAIProvider({
+          id: 'local',
+          apiKey,
+          baseURL: baseUrl || process.env.LOCAL_LLM_BASE_URL,
+          defaultModel: '',
+        });
         break;
       default:
-        providers[providerId] = new ClaudeProvider();
+        providers[key] = new ClaudeProvider(apiKey);
     }
   }
-  return providers[providerId];
+  return providers[key];
 }
 
-// Determine which provider to use based on model name
-export function getProviderForModel(model: string): LLMProvider {
+// Catalog models go to their configured provider; others are routed by name
+function resolveModelProvider(model: string): { provider: ModelProvider; baseUrl: string | null } {
+  const info = getModelInfo(model);
+  if (info) {
+    return { provider: info.provider, baseUrl: info.baseUrl };
+  }
   if (model.startsWith('claude-') || model.startsWith('claude')) {
-    return getProvider('claude');
+    return { provider: 'claude', baseUrl: null };
   }
   if (model.startsWith('grok-') || model.startsWith('grok')) {
-    return getProvider('grok');
+    return { provider: 'grok', baseUrl: null };
   }
   if (model.startsWith('gemini-') || model.startsWith('gemini')) {
-    return getProvider('gemini');
+    return { provider: 'gemini', baseUrl: null };
+  }
+  if (model.startsWith('gpt-')) {
+    return { provider: 'openai', baseUrl: null };
   }
   // Default to Claude
-  return getProvider('claude');
+  if (!unknownModels.has(model)) {
+    unknownModels.add(model);
+    console.warn(`[agentinabox-llm] No provider for model "${model}"; using Claude.`);
+  }
+  return { provider: 'claude', baseUrl: null };
+}
+
+export function getModelProvider(model: string): ModelProvider {
+  return resolveModelProvider(model).provider;
+}
+
+/**
+ * Provider for a model, using the platform API keys from the environment
+ */
+export function getProviderForModel(model: string): LLMProvider {
+  const { provider, baseUrl } = resolveModelProvider(model);
+  const apiKey = getEnvApiKey(provider);
+  return getProvider(getProviderEndpoint(provider, baseUrl, apiKey), apiKey);
+}
+
+/**
+ * Provider for a model called on behalf of an agent. The agent's own API key (set on the
+ * agent config page) is used when it has one, so its usage is billed to its account;
+ * otherwise the platform key from the environment.
+ */
+export async function getProviderForAgent(model: string, agentId: string): Promise<LLMProvider> {
+  return (await resolveAgentProvider(model, agentId)).provider;
+}
+
+/**
+ * Like getProviderForAgent, with the endpoint the provider calls; fallback chains keep
+ * circuit breakers by it
+ */
+export async function resolveAgentProvider(
+  model: string,
+  agentId: string
+): Promise<{ provider: LLMProvider; endpoint: ProviderEndpoint }> {
+  const { provider, baseUrl } = resolveModelProvider(model);
+  const keyName = AGENT_API_KEYS[provider];
+  const apiKey = (keyName ? await getAgentApiKeyWithFallback(agentId, keyName) : getEnvApiKey(provider)) || undefined;
+  const endpoint = getProviderEndpoint(provider, baseUrl, apiKey);
+  return { provider: getProvider(endpoint, apiKey), endpoint };
 }
 
 // For backward compatibility
 export function getDefaultLLMProvider(): LLMProvider {
-  return getProvider('claude');
+  const apiKey = getEnvApiKey('claude');
+  return getProvider(getProviderEndpoint('claude', null, apiKey), apiKey);
+}
+
+/**
+ * Whether a model may be offered to users. Models outside the catalog are allowed so
+ * agents configured before it existed keep working.
+ */
+export function isModelEnabled(model: string): boolean {
+  return getModelInfo(model)?.enabled !== false;
 }
 
-// Available models configuration
-export const AVAILABLE_MODELS = [
-  // Claude models
-  { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4', provider: 'claude' },
-  { id: 'claude-opus-4-20250514', name: 'Claude Opus 4', provider: 'claude' },
-  { id: 'claude-3-5-haiku-20241022', name: 'Claude 3.5 Haiku', provider: 'claude' },
+/**
+ * Output tokens to request: the caller's limit, capped by the model's maximum
+ */
+export function getMaxOutputTokens(model: string, requested: number): number {
+  const max = getModelInfo(model)?.maxOutputTokens;
+  return max ? Math.min(requested, max) : requested;
+}
 
-  // Grok models
-  { id: 'grok-3-latest', name: 'Grok 3 (Latest)', provider: 'grok' },
+/**
+ * Cost in USD of the given token counts, or null for models without a price
+ */
+export function estimateCost(model: string, usage: LLMUsage): number | null {
+  const pricing = getModelInfo(model)?.pricing;
+  if (!pricing) return null;
+  const cost = (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+  // Micro-dollar precision keeps stored metadata readable
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
 
-  // Gemini models
-  { id: 'gemini-2.5-flash-preview-05-20', name: 'Gemini 2.5 Flash', provider: 'gemini' },
-];
+/**
+ * The allowed model with the lowest list price, for background work such as titling.
+ * Models without a price are only picked when none has one.
+ */
+export function getCheapestModel(models: string[]): string | undefined {
+  let cheapest: string | undefined;
+  let cheapestPrice = Infinity;
+  for (const model of models) {
+    const pricing = getModelInfo(model)?.pricing;
+    const price = pricing ? pricing.input + pricing.output : Infinity;
+    if (!cheapest || price < cheapestPrice) {
+      cheapest = model;
+      cheapestPrice = price;
+    }
+  }
+  return cheapest;
+}
@@ -0,0 +1,260 @@
+/**
+ * Model Catalog
+ *
+ * Models agents can use, stored in ai_models and edited from the admin UI: provider,
+ * endpoint, context window, output cap, pricing and capabilities. Lookups during a reply
+ * are synchronous, so the catalog is cached in memory and reloaded after every admin edit
+ * and once a minute (for other server processes).
+ *
+ * An empty catalog is seeded with DEFAULT_MODELS. Models named in LOCAL_LLM_MODELS are
+ * added on every start.
+ */
+
+import { db } from '../db/client';
+import { models } from '../db/schema';
+import { asc, eq } from 'drizzle-orm';
+
+export type ModelProvider = 'claude' | 'grok' | 'gemini' | 'openai' | 'local';
+
+export const MODEL_PROVIDERS: ModelProvider[] = ['claude', 'grok', 'gemini', 'openai', 'local'];
+
+// List prices in USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  provider: ModelProvider;
+  // OpenAI-compatible endpoint; only used by the openai and local providers
+  baseUrl: string | null;
+  contextWindow: number; // input + output tokens
+  maxOutputTokens: number | null;
+  pricing: ModelPricing | null;
+  supportsVision: boolean;
+  supportsTools: boolean;
+  enabled: boolean;
+}
+
+// Fields an admin sets; `id` is fixed once created
+export type ModelInput = Omit<ModelInfo, 'id'>;
+
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+function defaultModel(
+  id: string,
+  name: string,
+  provider: ModelProvider,
+  contextWindow: number,
+  maxOutputTokens: number | null,
+  pricing: ModelPricing | null,
+  supportsVision: boolean
+): ModelInfo {
+  return {
+    id,
+    name,
+    provider,
+    baseUrl: null,
+    contextWindow,
+    maxOutputTokens,
+    pricing,
+    supportsVision,
+    supportsTools: true,
+    enabled: true,
+  };
+}
+
+export const DEFAULT_MODELS: ModelInfo[] = [
+  // Claude models
+  defaultModel('claude-sonnet-4-20250514', 'Claude Sonnet 4', 'claude', 200000, 64000, { input: 3, output: 15 }, true),
+  defaultModel('claude-opus-4-20250514', 'Claude Opus 4', 'claude', 200000, 32000, { input: 15, output: 75 }, true),
+  defaultModel('claude-3-5-haiku-20241022', 'Claude 3.5 Haiku', 'claude', 200000, 8192, { input: 0.8, output: 4 }, false),
+
+  // Grok models
+  defaultModel('grok-3-latest', 'Grok 3 (Latest)', 'grok', 131072, null, { input: 3, output: 15 }, false),
+
+  // Gemini models
+  defaultModel('gemini-2.5-flash-preview-05-20', 'Gemini 2.5 Flash', 'gemini', 1048576, 65536, { input: 0.15, output: 0.6 }, true),
+
+  // OpenAI models
+  defaultModel('gpt-4.1', 'GPT-4.1', 'openai', 1047576, 32768, { input: 2, output: 8 }, true),
+  defaultModel('gpt-4.1-mini', 'GPT-4.1 mini', 'openai', 1047576, 32768, { input: 0.4, output: 1.6 }, true),
+  defaultModel('gpt-4o', 'GPT-4o', 'openai', 128000, 16384, { input: 2.5, output: 10 }, true),
+  defaultModel('gpt-4o-mini', 'GPT-4o mini', 'openai', 128000, 16384, { input: 0.15, output: 0.6 }, true),
+];
+
+// Models on the LOCAL_LLM_BASE_URL server; self-hosted inference has no per-token price
+function getEnvLocalModels(): ModelInfo[] {
+  if (!process.env.LOCAL_LLM_BASE_URL) return [];
+  const contextWindow = Number(process.env.LOCAL_LLM_CONTEXT_WINDOW) || 8192;
+  return (process.env.LOCAL_LLM_MODELS || '')
+    .split(',')
+    .map((m) => m.trim())
+    .filter(Boolean)
+    .map((id) => ({
+      ...defaultModel(id, id, 'local', contextWindow, null, { input: 0, output: 0 }, false),
+      // Tool calling depends on the model and server flags; admins turn it on per model
+      supportsTools: false,
+    }));
+}
+
+// Served until the database has been read, and if it cannot be
+let catalog: ModelInfo[] = [...DEFAULT_MODELS, ...getEnvLocalModels()];
+
+function toModelInfo(row: any): ModelInfo {
+  return {
+    id: row.id,
+    name: row.name,
+    provider: row.provider,
+    baseUrl: row.baseUrl || null,
+    contextWindow: row.contextWindow,
+    maxOutputTokens: row.maxOutputTokens ?? null,
+    pricing: row.pricing || null,
+    supportsVision: row.supportsVision === 1,
+    supportsTools: row.supportsTools === 1,
+    enabled: row.enabled === 1,
+  };
+}
+
+function toRow(model: ModelInput) {
+  return {
+    name: model.name,
+    provider: model.provider,
+    baseUrl: model.baseUrl,
+    contextWindow: model.contextWindow,
+    maxOutputTokens: model.maxOutputTokens,
+    pricing: model.pricing,
+    supportsVision: model.supportsVision ? 1 : 0,
+    supportsTools: model.supportsTools ? 1 : 0,
+    enabled: model.enabled ? 1 : 0,
+  };
+}
+
+export async function refreshModelCatalog(): Promise<void> {
+  const rows = (await db.select().from(models).orderBy(asc(models.provider), asc(models.name))) as any[];
+  catalog = rows.map(toModelInfo);
+}
+
+/**
+ * Seed the catalog table and load it, then keep it fresh
+ */
+export async function loadModelCatalog(): Promise<void> {
+  const existing = await db.select({ id: models.id }).from(models).limit(1);
+  const seed = existing.length ? getEnvLocalModels() : [...DEFAULT_MODELS, ...getEnvLocalModels()];
+  for (const model of seed) {
+    await db
+      .insert(models)
+      .values({ id: model.id, ...toRow(model) })
+      .onConflictDoNothing();
+  }
+
+  await refreshModelCatalog();
+  setInterval(() => {
+    refreshModelCatalog().catch((err) => console.error('[models] Failed to reload model catalog:', err));
+  }, REFRESH_INTERVAL_MS).unref();
+}
+
+/**
+ * Catalog models, enabled ones only unless asked otherwise
+ */
+export function listModels(includeDisabled = false): ModelInfo[] {
+  return includeDisabled ? catalog : catalog.filter((m) => m.enabled);
+}
+
+export function getModelInfo(model: string): ModelInfo | undefined {
+  return catalog.find((m) => m.id === model);
+}
+
+function optionalPositiveInt(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * Model fields from an admin request body, or an error message. Omitted fields keep
+ * the values of `existing` (when updating) or fall back to defaults (when creating).
+ */
+export function parseModelInput(body: any, existing?: ModelInfo): ModelInput | string {
+  if (!body || typeof body !== 'object') return 'Model must be an object';
+
+  const provider = body.provider ?? existing?.provider;
+  if (!MODEL_PROVIDERS.includes(provider)) {
+    return `provider must be one of: ${MODEL_PROVIDERS.join(', ')}`;
+  }
+
+  const contextWindow =
+    body.contextWindow !== undefined ? optionalPositiveInt(body.contextWindow) : existing?.contextWindow;
+  if (!contextWindow) return 'contextWindow must be a positive integer';
+
+  const maxOutputTokens =
+    body.maxOutputTokens !== undefined ? optionalPositiveInt(body.maxOutputTokens) : existing?.maxOutputTokens ?? null;
+  if (maxOutputTokens === undefined) return 'maxOutputTokens must be a positive integer or null';
+
+  let pricing = existing?.pricing ?? null;
+  if (body.pricing !== undefined) {
+    if (body.pricing === null) {
+      pricing = null;
+    } else {
+      const input = Number(body.pricing?.input);
+      const output = Number(body.pricing?.output);
+      if (!(input >= 0) || !(output >= 0)) return 'pricing.input and pricing.output must be non-negative numbers';
+      pricing = { input, output };
+    }
+  }
+
+  const baseUrl =
+    body.baseUrl !== undefined
+      ? (typeof body.baseUrl === 'string' && body.baseUrl.trim()) || null
+      : existing?.baseUrl ?? null;
+  if (baseUrl) {
+    try {
+      new URL(baseUrl);
+    } catch {
+      return 'baseUrl must be a valid URL';
+    }
+  }
+
+  const name = typeof body.name === 'string' && body.name.trim() ? body.name.trim().slice(0, 255) : existing?.name;
+
+  return {
+    name: name || '',
+    provider,
+    baseUrl,
+    contextWindow,
+    maxOutputTokens,
+    pricing,
+    supportsVision: typeof body.supportsVision === 'boolean' ? body.supportsVision : existing?.supportsVision ?? false,
+    supportsTools: typeof body.supportsTools === 'boolean' ? body.supportsTools : existing?.supportsTools ?? true,
+    enabled: typeof body.enabled === 'boolean' ? body.enabled : existing?.enabled ?? true,
+  };
+}
+
+export async function createModel(id: string, input: ModelInput): Promise<ModelInfo | null> {
+  const rows = (await db
+    .insert(models)
+    .values({ id, ...toRow({ ...input, name: input.name || id }) })
+    .onConflictDoNothing()
+    .returning()) as any[];
+  await refreshModelCatalog();
+  return rows[0] ? toModelInfo(rows[0]) : null;
+}
+
+export async function updateModel(id: string, input: ModelInput): Promise<ModelInfo | null> {
+  const rows = (await db
+    .update(models)
+    .set({ ...toRow(input), updatedAt: new Date() })
+    .where(eq(models.id, id))
+    .returning()) as any[];
+  await refreshModelCatalog();
+  return rows[0] ? toModelInfo(rows[0]) : null;
+}
+
+export async function deleteModel(id: string): Promise<boolean> {
+  const rows = (await db.delete(models).where(eq(models.id, id)).returning()) as any[];
+  await refreshModelCatalog();
+  return rows.length > 0;
+}
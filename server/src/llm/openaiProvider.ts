@@ -0,0 +1,267 @@
+import OpenAI from 'openai';
+import {
+  LLMMessage,
+  LLMProvider,
+  LLMResponse,
+  GenerateOptions,
+  StreamOptions,
+  LLMStreamChunk,
+  ToolGenerateOptions,
+  ToolStreamOptions,
+  LLMToolResponse,
+  LLMToolCall,
+  LLMToolDefinition,
+  LLMStopReason,
+  LLMUsage,
+} from './types';
+
+export interface OpenAIProviderOptions {
+  id: string;
+  apiKey: string | undefined;
+  // Any server speaking the OpenAI chat completions API (xAI, vLLM, Ollama, LM Studio, ...)
+  baseURL?: string | undefined;
+  defaultModel: string;
+  // Send the output limit as max_completion_tokens, which OpenAI's reasoning models require
+  // in place of max_tokens; other compatible servers only know max_tokens
+  maxCompletionTokens?: boolean | undefined;
+}
+
+function toOpenAIMessages(messages: LLMMessage[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+  return messages.map((m): OpenAI.Chat.ChatCompletionMessageParam => {
+    if (m.role === 'tool') {
+      return { role: 'tool', tool_call_id: m.toolCallId || '', content: m.content };
+    }
+    if (m.role === 'assistant' && m.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: m.content || null,
+        tool_calls: m.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function' as const,
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      };
+    }
+    if (m.role === 'user' && m.images?.length) {
+      return {
+        role: 'user',
+        content: [
+          ...m.images.map((image) => ({
+            type: 'image_url' as const,
+            image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+          })),
+          { type: 'text' as const, text: m.content },
+        ],
+      };
+    }
+    return { role: m.role, content: m.content };
+  });
+}
+
+function parseToolArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function toOpenAITools(tools: LLMToolDefinition[]): OpenAI.Chat.ChatCompletionTool[] {
+  return tools.map((t) => ({
+    type: 'function' as const,
+    function: { name: t.name, description: t.description, parameters: t.inputSchema },
+  }));
+}
+
+function toStopReason(reason: string | null | undefined): LLMStopReason {
+  switch (reason) {
+    case 'stop':
+      return 'end_turn';
+    case 'tool_calls':
+      return 'tool_use';
+    case 'length':
+      return 'max_tokens';
+    default:
+      return 'other';
+  }
+}
+
+function toRequestParams(options: GenerateOptions, maxCompletionTokens: boolean) {
+  const maxTokens = options.maxTokens || 1024;
+  return {
+    ...(maxCompletionTokens ? { max_completion_tokens: maxTokens } : { max_tokens: maxTokens }),
+    ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+    ...(options.topP !== undefined ? { top_p: options.topP } : {}),
+    ...(options.stopSequences?.length ? { stop: options.stopSequences } : {}),
+  };
+}
+
+// Some compatible servers omit usage; replies are then stored without token counts
+function toUsage(usage: OpenAI.CompletionUsage | null | undefined): LLMUsage | undefined {
+  return usage ? { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens } : undefined;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  id: string;
+  private client: OpenAI;
+  private defaultModel: string;
+  private maxCompletionTokens: boolean;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.id = options.id;
+    this.defaultModel = options.defaultModel;
+    this.maxCompletionTokens = !!options.maxCompletionTokens;
+    this.client = new OpenAI({
+      // Local servers usually accept any key
+      apiKey: options.apiKey || 'missing-key',
+      ...(options.baseURL ? { baseURL: options.baseURL } : {}),
+    });
+  }
+
+  async generate(messages: LLMMessage[], options: GenerateOptions): Promise<LLMResponse> {
+    const model = options.model || this.defaultModel;
+
+    const response = await this.client.chat.completions.create(
+      {
+        model,
+        ...toRequestParams(options, this.maxCompletionTokens),
+        messages: toOpenAIMessages(messages),
+      },
+      { signal: options.signal }
+    );
+
+    return { content: response.choices[0]?.message?.content || '', usage: toUsage(response.usage) };
+  }
+
+  async generateWithTools(messages: LLMMessage[], options: ToolGenerateOptions): Promise<LLMToolResponse> {
+    const model = options.model || this.defaultModel;
+
+    const response = await this.client.chat.completions.create(
+      {
+        model,
+        ...toRequestParams(options, this.maxCompletionTokens),
+        messages: toOpenAIMessages(messages),
+        tools: toOpenAITools(options.tools),
+        tool_choice: options.toolChoice || 'auto',
+      },
+      { signal: options.signal }
+    );
+
+    const choice = response.choices[0];
+    const message = choice?.message;
+    const toolCalls: LLMToolCall[] = [];
+
+    for (const call of message?.tool_calls || []) {
+      if (call.type !== 'function') continue;
+      toolCalls.push({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseToolArguments(call.function.arguments),
+      });
+    }
+
+    return {
+      content: message?.content || '',
+      toolCalls,
+      stopReason: toStopReason(choice?.finish_reason),
+      usage: toUsage(response.usage),
+    };
+  }
+
+  async stream(
+    messages: LLMMessage[],
+    options: StreamOptions,
+    onChunk: (chunk: LLMStreamChunk) => void
+  ): Promise<void> {
+    const model = options.model || this.defaultModel;
+
+    const stream = await this.client.chat.completions.create(
+      {
+        model,
+        ...toRequestParams(options, this.maxCompletionTokens),
+        messages: toOpenAIMessages(messages),
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { signal: options.signal }
+    );
+
+    let full = '';
+    let usage: LLMUsage | undefined;
+
+    for await (const chunk of stream) {
+      // The usage chunk comes last and has no choices
+      if (chunk.usage) usage = toUsage(chunk.usage);
+      const delta = chunk.choices[0]?.delta?.content || '';
+      if (delta) {
+        full += delta;
+        onChunk({ type: 'delta', content: delta });
+      }
+    }
+
+    onChunk({ type: 'final', content: full, usage });
+  }
+
+  async streamWithTools(
+    messages: LLMMessage[],
+    options: ToolStreamOptions,
+    onChunk: (chunk: LLMStreamChunk) => void
+  ): Promise<LLMToolResponse> {
+    const model = options.model || this.defaultModel;
+
+    const stream = await this.client.chat.completions.create(
+      {
+        model,
+        ...toRequestParams(options, this.maxCompletionTokens),
+        messages: toOpenAIMessages(messages),
+        tools: toOpenAITools(options.tools),
+        tool_choice: options.toolChoice || 'auto',
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { signal: options.signal }
+    );
+
+    let full = '';
+    let finishReason: string | null | undefined;
+    let usage: LLMUsage | undefined;
+    // Tool calls arrive in fragments keyed by index; arguments are streamed as partial JSON
+    const pending = new Map<number, { id: string; name: string; arguments: string }>();
+
+    for await (const chunk of stream) {
+      if (chunk.usage) usage = toUsage(chunk.usage);
+      const choice = chunk.choices[0];
+      if (!choice) continue;
+
+      const delta = choice.delta?.content || '';
+      if (delta) {
+        full += delta;
+        onChunk({ type: 'delta', content: delta });
+      }
+
+      for (const fragment of choice.delta?.tool_calls || []) {
+        onChunk({ type: 'progress', content: '' });
+        const entry = pending.get(fragment.index) || { id: '', name: '', arguments: '' };
+        if (fragment.id) entry.id = fragment.id;
+        if (fragment.function?.name) entry.name += fragment.function.name;
+        if (fragment.function?.arguments) entry.arguments += fragment.function.arguments;
+        pending.set(fragment.index, entry);
+      }
+
+      if (choice.finish_reason) finishReason = choice.finish_reason;
+    }
+
+    const toolCalls: LLMToolCall[] = [...pending.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, entry]) => ({ id: entry.id, name: entry.name, arguments: parseToolArguments(entry.arguments) }));
+
+    for (const toolCall of toolCalls) {
+      onChunk({ type: 'tool_call', content: '', toolCall });
+    }
+
+    onChunk({ type: 'final', content: full, usage });
+
+    return { content: full, toolCalls, stopReason: toStopReason(finishReason), usage };
+  }
+}
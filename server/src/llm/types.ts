@@ -1,28 +1,105 @@
-export type LLMRole = 'system' | 'user' | 'assistant';
+export type LLMRole = 'system' | 'user' | 'assistant' | 'tool';
+
+// Provider-neutral tool definition. inputSchema is plain JSON Schema.
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// Inline image sent with a user turn
+export interface LLMImage {
+  mimeType: 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp';
+  // Base64-encoded bytes
+  data: string;
+}
 
 export interface LLMMessage {
   role: LLMRole;
   content: string;
+  // User turns with attached images
+  images?: LLMImage[];
+  // Assistant turns that requested tools
+  toolCalls?: LLMToolCall[];
+  // Assistant turns that requested tools: the provider's reasoning blocks, sent back as given
+  reasoning?: unknown[] | undefined;
+  // Tool turns: the call this result answers
+  toolCallId?: string;
+}
+
+// Why the model stopped generating, normalised across providers
+export type LLMStopReason = 'end_turn' | 'tool_use' | 'max_tokens' | 'stop_sequence' | 'other';
+
+// Token counts as reported by the provider
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
 }
 
 export interface LLMStreamChunk {
-  type: 'delta' | 'final';
+  // 'progress' chunks carry no content; they are sent while the model thinks or writes
+  // tool arguments, so callers can tell a working model from a stalled one
+  type: 'delta' | 'progress' | 'final' | 'tool_call';
   content: string;
+  // Set on 'tool_call' chunks once the call's arguments are complete
+  toolCall?: LLMToolCall;
+  // Set on the 'final' chunk when the provider reports token counts
+  usage?: LLMUsage | undefined;
 }
 
 export interface GenerateOptions {
   model: string;
   maxTokens?: number;
+  // Sampling; unset leaves the provider default
+  temperature?: number | undefined;
+  topP?: number | undefined;
+  stopSequences?: string[] | undefined;
+  // Claude extended thinking, counted within maxTokens; other providers ignore it
+  thinkingBudgetTokens?: number | undefined;
+  // Aborts the provider request; the call then rejects
+  signal?: AbortSignal | undefined;
 }
 
-export interface StreamOptions extends GenerateOptions {}
+export type StreamOptions = GenerateOptions;
+
+export interface ToolGenerateOptions extends GenerateOptions {
+  tools: LLMToolDefinition[];
+  // 'none' forces a plain text answer while keeping tool history valid
+  toolChoice?: 'auto' | 'none';
+}
+
+export interface ToolStreamOptions extends ToolGenerateOptions, StreamOptions {}
+
+export interface LLMResponse {
+  content: string;
+  usage?: LLMUsage | undefined;
+}
+
+export interface LLMToolResponse extends LLMResponse {
+  toolCalls: LLMToolCall[];
+  stopReason: LLMStopReason;
+  // Claude's thinking blocks, which must accompany the tool calls in the next request
+  reasoning?: unknown[] | undefined;
+}
 
 export interface LLMProvider {
   id: string;
-  generate(messages: LLMMessage[], options: GenerateOptions): Promise<string>;
+  generate(messages: LLMMessage[], options: GenerateOptions): Promise<LLMResponse>;
+  generateWithTools(messages: LLMMessage[], options: ToolGenerateOptions): Promise<LLMToolResponse>;
   stream(
     messages: LLMMessage[],
     options: StreamOptions,
     onChunk: (chunk: LLMStreamChunk) => void
   ): Promise<void>;
+  streamWithTools(
+    messages: LLMMessage[],
+    options: ToolStreamOptions,
+    onChunk: (chunk: LLMStreamChunk) => void
+  ): Promise<LLMToolResponse>;
 }
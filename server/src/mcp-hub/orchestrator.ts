@@ -6,6 +6,7 @@
  */
 
 import { EventEmitter } from 'events';
+import { z } from 'zod';
 import { MCPRegistry } from './registry';
 import { MCPRouter } from './router';
 import {
@@ -162,12 +163,13 @@ export class MCPOrchestrator extends EventEmitter {
     return this.registry.searchTools(query);
   }
 
-  // Get all available tools
+  // Get all available tools (input schemas as JSON Schema)
   getAllTools() {
     return this.registry.getAllTools().map((tool) => ({
       server: tool.serverName,
       name: tool.name,
       description: tool.description,
+      inputSchema: z.toJSONSchema(tool.inputSchema, { io: 'input', unrepresentable: 'any' }) as Record<string, unknown>,
     }));
   }
 
@@ -0,0 +1,70 @@
+/**
+ * Conversation Index
+ *
+ * Documents an end user attaches to a conversation are chunked and embedded here instead
+ * of in the agent's knowledge base, so they are only searched for that conversation and
+ * never leak into other users' answers. The index expires with the conversation: chunks of
+ * conversations idle for CONVERSATION_KNOWLEDGE_TTL_DAYS are removed by a periodic sweep.
+ */
+
+import { db } from '../db/client';
+import { conversationChunks } from '../db/schema';
+import { sql } from 'drizzle-orm';
+import { splitTextIntoChunks, generateEmbedding } from './ragService';
+
+const TTL_DAYS = Number(process.env.CONVERSATION_KNOWLEDGE_TTL_DAYS) || 30;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+export async function indexConversationDocument(
+  conversationId: number,
+  attachmentId: number,
+  content: string
+): Promise<void> {
+  const chunks = splitTextIntoChunks(content);
+
+  const values = await Promise.all(
+    chunks.map(async (chunk, index) => ({
+      conversationId,
+      attachmentId,
+      chunkIndex: index,
+      content: chunk,
+      embedding: await generateEmbedding(chunk),
+      tokenCount: Math.ceil(chunk.length / 4),
+    }))
+  );
+
+  if (values.length) {
+    await db.insert(conversationChunks).values(values as any);
+  }
+}
+
+/**
+ * Remove the chunks of conversations that expired (idle past the TTL) or no longer exist.
+ * Returns the number of chunks removed.
+ */
+export async function expireConversationIndexes(): Promise<number> {
+  const result = await db.execute(sql`
+    DELETE FROM ai_conversation_chunks c
+    WHERE NOT EXISTS (
+      SELECT 1 FROM ai_conversations conv
+      WHERE conv.id = c.conversation_id
+        AND conv.updated_at > NOW() - (${TTL_DAYS} * INTERVAL '1 day')
+    )
+  `);
+  return result.rowCount || 0;
+}
+
+/**
+ * Sweep expired conversation indexes now and then hourly
+ */
+export function startConversationIndexExpiry(): void {
+  const sweep = () =>
+    expireConversationIndexes()
+      .then((removed) => {
+        if (removed) console.log(`[rag] Expired ${removed} conversation chunks`);
+      })
+      .catch((err) => console.error('[rag] Failed to expire conversation chunks:', err));
+
+  sweep();
+  setInterval(sweep, SWEEP_INTERVAL_MS).unref();
+}
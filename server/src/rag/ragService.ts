@@ -5,11 +5,17 @@ import { eq, sql } from 'drizzle-orm';
 
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY || 'missing-key' });
 
+export type ChunkScope = 'agent' | 'conversation';
+
 export interface SimilarChunk {
   content: string;
-  documentId: number;
+  chunkId: number;
+  documentId: number; // ai_documents.id, or ai_attachments.id for conversation chunks
   sourceTitle: string;
+  sourceUrl: string | null; // documents.metadata.sourceUrl, set for synced docs
   similarity: number;
+  // 'agent' for the knowledge base, 'conversation' for files the user attached
+  scope: ChunkScope;
 }
 
 export function splitTextIntoChunks(text: string, maxChunkSize = 1000, overlap = 200): string[] {
@@ -75,14 +81,37 @@ export async function indexDocument(agentId: string, documentId: number, content
   }
 }
 
+// Keep the closest rows that fit the limits
+function takeWithinBudget(rows: SimilarChunk[], tokenCounts: number[], limit: number, maxTokens: number) {
+  const results: SimilarChunk[] = [];
+  let tokens = 0;
+
+  rows.forEach((row, i) => {
+    const t = tokenCounts[i] ?? Math.ceil(row.content.length / 4);
+    if (results.length < limit && tokens + t <= maxTokens) {
+      results.push(row);
+      tokens += t;
+    }
+  });
+
+  return results;
+}
+
 export async function search(
   agentId: string,
   query: string,
   limit = 5,
   maxTokens = 3000
 ): Promise<SimilarChunk[]> {
-  const queryEmbedding = await generateEmbedding(query);
+  return searchAgent(agentId, await generateEmbedding(query), limit, maxTokens);
+}
 
+async function searchAgent(
+  agentId: string,
+  queryEmbedding: number[],
+  limit: number,
+  maxTokens: number
+): Promise<SimilarChunk[]> {
   // Format embedding for pgvector query
   const embeddingStr = `[${queryEmbedding.join(',')}]`;
 
@@ -96,6 +125,7 @@ export async function search(
       c.content,
       c.token_count,
       d.title as source_title,
+      d.metadata->>'sourceUrl' as source_url,
       1 - (c.embedding <=> ${embeddingStr}::vector) as similarity
     FROM ai_document_chunks c
     LEFT JOIN ai_documents d ON c.document_id = d.id
@@ -105,31 +135,92 @@ export async function search(
     LIMIT ${limit * 2}
   `);
 
-  const results: SimilarChunk[] = [];
-  let tokens = 0;
+  const found = rows.rows as any[];
+  return takeWithinBudget(
+    found.map((row) => ({
+      content: row.content,
+      chunkId: row.id,
+      documentId: row.document_id,
+      sourceTitle: row.source_title || 'Unknown source',
+      sourceUrl: row.source_url || null,
+      similarity: row.similarity,
+      scope: 'agent',
+    })),
+    found.map((row) => row.token_count || Math.ceil((row.content?.length || 0) / 4)),
+    limit,
+    maxTokens
+  );
+}
 
-  for (const row of rows.rows as any[]) {
-    const t = row.token_count || Math.ceil((row.content?.length || 0) / 4);
-    if (results.length < limit && tokens + t <= maxTokens) {
-      results.push({
-        content: row.content,
-        documentId: row.document_id,
-        sourceTitle: row.source_title || 'Unknown source',
-        similarity: row.similarity,
-      });
-      tokens += t;
-    }
-  }
+// Chunks of the files attached to a conversation (see conversationIndex.ts)
+async function searchConversation(
+  conversationId: number,
+  queryEmbedding: number[],
+  limit: number,
+  maxTokens: number
+): Promise<SimilarChunk[]> {
+  const embeddingStr = `[${queryEmbedding.join(',')}]`;
 
-  return results;
+  // Only files already sent with a message; uploads waiting to be sent are not searchable yet
+  const rows = await db.execute(sql`
+    SELECT
+      c.id,
+      c.attachment_id,
+      c.content,
+      c.token_count,
+      a.file_name,
+      1 - (c.embedding <=> ${embeddingStr}::vector) as similarity
+    FROM ai_conversation_chunks c
+    INNER JOIN ai_attachments a ON c.attachment_id = a.id
+    WHERE c.conversation_id = ${conversationId}
+      AND a.message_id IS NOT NULL
+      AND c.embedding IS NOT NULL
+    ORDER BY c.embedding <=> ${embeddingStr}::vector ASC
+    LIMIT ${limit * 2}
+  `);
+
+  const found = rows.rows as any[];
+  return takeWithinBudget(
+    found.map((row) => ({
+      content: row.content,
+      chunkId: row.id,
+      documentId: row.attachment_id,
+      sourceTitle: row.file_name || 'Attached file',
+      sourceUrl: null,
+      similarity: row.similarity,
+      scope: 'conversation',
+    })),
+    found.map((row) => row.token_count || Math.ceil((row.content?.length || 0) / 4)),
+    limit,
+    maxTokens
+  );
 }
 
+/**
+ * Closest chunks for a query from the agent's knowledge base and, when a conversation is
+ * given, from the files attached to it, ranked together by similarity
+ */
 export async function getRelevantContext(
   agentId: string,
   query: string,
-  maxTokens = 2000
+  maxTokens = 2000,
+  conversationId?: number
 ): Promise<{ context: string; sources: SimilarChunk[] }> {
-  const chunks = await search(agentId, query, 10, maxTokens);
+  const limit = 10;
+  const queryEmbedding = await generateEmbedding(query);
+
+  const [agentChunks, conversationChunks] = await Promise.all([
+    searchAgent(agentId, queryEmbedding, limit, maxTokens),
+    conversationId ? searchConversation(conversationId, queryEmbedding, limit, maxTokens) : Promise.resolve([]),
+  ]);
+
+  const ranked = [...agentChunks, ...conversationChunks].sort((a, b) => b.similarity - a.similarity);
+  const chunks = takeWithinBudget(
+    ranked,
+    ranked.map((c) => Math.ceil(c.content.length / 4)),
+    limit,
+    maxTokens
+  );
 
   let context = '';
   for (const c of chunks) {
@@ -406,6 +406,7 @@ export async function executeRefresh(
       filename: string;
       content: string;
       originalPath: string;
+      sourceUrl?: string | undefined;
       wasConverted: boolean;
     }> = [];
 
@@ -444,6 +445,7 @@ export async function executeRefresh(
           filename: processed.outputFilename,
           content: processed.content,
           originalPath: file.path,
+          sourceUrl: processed.sourceUrl,
           wasConverted: processed.wasConverted,
         });
 
@@ -511,6 +513,7 @@ export async function executeRefresh(
         {
           metadata: {
             gitlabPath: file.originalPath,
+            ...(file.sourceUrl ? { sourceUrl: file.sourceUrl } : {}),
             wasConverted: file.wasConverted,
             refreshId,
           },
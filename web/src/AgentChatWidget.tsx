@@ -132,6 +132,8 @@ export interface AgentChatWidgetProps {
   mode?: AgentChatWidgetMode;
   position?: 'bottom-right' | 'bottom-left';
   preChatForm?: PreChatFormConfig;
+  // 'websocket' adds typing indicators and server-pushed messages; replies are the same either way
+  transport?: 'sse' | 'websocket';
 }
 
 interface ChatMessage {
@@ -140,6 +142,35 @@ interface ChatMessage {
   content: string;
   timestamp: Date;
   attachments?: { name: string; url: string; type: string }[];
+  citations?: Citation[];
+  serverId?: number; // ai_messages.id, set once the message is stored
+  feedback?: 'up' | 'down';
+  branch?: BranchInfo; // set when regenerating or editing created siblings
+  interrupted?: boolean; // the user stopped the reply before it finished
+  operatorName?: string; // set on replies from a person who took over the conversation
+  suggestions?: string[]; // follow-up questions offered after this reply
+}
+
+// Who is answering: the bot, or a person after a handoff
+type ConversationStatus = 'bot' | 'pending_human' | 'human' | 'closed';
+
+interface BranchInfo {
+  index: number;
+  count: number;
+  siblingIds: number[];
+}
+
+interface Citation {
+  index: number;
+  documentId: number;
+  chunkId: number;
+  title: string;
+  url: string | null;
+}
+
+interface ModelOption {
+  id: string;
+  name: string;
 }
 
 interface UserInfo {
@@ -301,6 +332,108 @@ const formatRelativeTime = (date: Date): string => {
   return date.toLocaleDateString();
 };
 
+// Reconnection attempts for a reply stream that drops before its end event
+const MAX_STREAM_RESUMES = 3;
+
+// Minimum gap between "user is typing" notifications
+const TYPING_THROTTLE_MS = 3000;
+
+// Without the WebSocket, operator replies are picked up by polling while a person is involved
+const HANDOFF_POLL_MS = 5000;
+
+// A reply request, sent as an SSE POST or a WebSocket message
+type ReplyRequest =
+  | { type: 'send'; message: string; fileIds: number[] }
+  | { type: 'regenerate'; messageId: number }
+  | { type: 'edit'; messageId: number; message: string };
+
+// SSE route and body for a reply request
+const toStreamRequest = (request: ReplyRequest): { path: string; body: Record<string, unknown> } => {
+  switch (request.type) {
+    case 'send':
+      return { path: '/stream', body: { message: request.message, fileIds: request.fileIds } };
+    case 'regenerate':
+      return { path: '/regenerate', body: { messageId: request.messageId } };
+    case 'edit':
+      return { path: `/messages/${request.messageId}/edit`, body: { message: request.message } };
+  }
+};
+
+// fetch rejects with an AbortError once the user stops a reply
+const isAbortError = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+// Small icon buttons under a message (branch switcher, edit, regenerate, feedback)
+const messageActionStyle: React.CSSProperties = {
+  border: 'none',
+  background: 'transparent',
+  cursor: 'pointer',
+  fontSize: 12,
+  padding: '2px 4px',
+  borderRadius: 4,
+  color: 'var(--agent-text-secondary)',
+};
+
+// Clickable question chips (follow-up suggestions, starter prompts)
+const promptChipStyle: React.CSSProperties = {
+  border: '1px solid var(--agent-input-border)',
+  background: 'var(--agent-input-bg)',
+  color: 'var(--agent-primary)',
+  cursor: 'pointer',
+  fontSize: 12,
+  padding: '6px 12px',
+  borderRadius: 16,
+  textAlign: 'left',
+  fontFamily: 'inherit',
+};
+
+// Runs of `[n]` markers, as validated by the server: not glued to an identifier or index
+// expression (`items[1]`) and not a markdown link
+const CITATION_RUN_PATTERN = /((?<![\w$\])])(?:\[\d+\])+(?!\())/;
+
+// Fenced code blocks (possibly unterminated while streaming) and inline code spans
+const CODE_PATTERN = /(```[\s\S]*?(?:```|$)|~~~[\s\S]*?(?:~~~|$)|`[^`\n]*`)/;
+
+const renderCitation = (citation: Citation, key: string): React.ReactNode => {
+  const label = citation.index;
+  return (
+    <sup key={key} style={{ fontSize: '0.7em', marginLeft: 1 }}>
+      {citation.url ? (
+        <a
+          href={citation.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          title={citation.title}
+          style={{ color: 'var(--agent-primary)', textDecoration: 'none', fontWeight: 600 }}
+        >
+          [{label}]
+        </a>
+      ) : (
+        <span title={citation.title} style={{ color: 'var(--agent-text-secondary)' }}>
+          [{label}]
+        </span>
+      )}
+    </sup>
+  );
+};
+
+// Render `[n]` markers as superscript links to the cited source, leaving code untouched
+const renderWithCitations = (content: string, citations?: Citation[]): React.ReactNode => {
+  if (!citations || citations.length === 0) return content;
+
+  const byIndex = new Map(citations.map((c) => [c.index, c]));
+  return content.split(CODE_PATTERN).flatMap((segment, i) => {
+    if (i % 2) return [segment];
+    return segment.split(CITATION_RUN_PATTERN).flatMap((part, j) => {
+      if (j % 2 === 0) return [part];
+      return part.split(/(\[\d+\])/g).map((marker, k) => {
+        const match = marker.match(/^\[(\d+)\]$/);
+        const citation = match ? byIndex.get(Number(match[1])) : undefined;
+        return citation ? renderCitation(citation, `${i}-${j}-${k}`) : marker;
+      });
+    });
+  });
+};
+
 export const AgentChatWidget: React.FC<AgentChatWidgetProps> = ({
   apiBaseUrl,
   agentId,
@@ -309,6 +442,7 @@ export const AgentChatWidget: React.FC<AgentChatWidgetProps> = ({
   mode = 'inline',
   position = 'bottom-right',
   preChatForm = { enabled: false },
+  transport = 'sse',
 }) => {
   const [conversationId, setConversationId] = useState<number | null>(null);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
@@ -321,6 +455,20 @@ export const AgentChatWidget: React.FC<AgentChatWidgetProps> = ({
   const [showPreChat, setShowPreChat] = useState(preChatForm.enabled);
   const [userInfo, setUserInfo] = useState<UserInfo>({});
   const [attachments, setAttachments] = useState<File[]>([]);
+  const [handoff, setHandoff] = useState<{ status: ConversationStatus; operatorName: string | null }>({
+    status: 'bot',
+    operatorName: null,
+  });
+
+  // Model picker state (only shown for multi-model agents)
+  const [availableModels, setAvailableModels] = useState<ModelOption[]>([]);
+  const [selectedModel, setSelectedModel] = useState<string | null>(null);
+
+  // Feedback comment draft for a thumbs-down rating
+  const [feedbackDraft, setFeedbackDraft] = useState<{ messageId: string; comment: string } | null>(null);
+
+  // User message being edited before it is re-sent as a new branch
+  const [editDraft, setEditDraft] = useState<{ messageId: string; content: string } | null>(null);
 
   // Command selector state
   const [showCommandPopover, setShowCommandPopover] = useState(false);
@@ -342,8 +490,15 @@ export const AgentChatWidget: React.FC<AgentChatWidgetProps> = ({
   const messagesEndRef = useRef<HTMLDivElement | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const commandButtonRef = useRef<HTMLButtonElement | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const streamIdRef = useRef<string | null>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+  // Event handlers for replies in flight on the WebSocket, by request id
+  const socketHandlersRef = useRef(new Map<string, (payload: any) => void>());
+  const lastTypingRef = useRef(0);
 
   const mergedTheme: AgentTheme = { ...defaultTheme, ...(theme || {}) };
+  const starterPrompts = (mergedTheme.starterPrompts || []).filter((p) => p.trim());
 
   // Inject CSS animations
   useEffect(() => {
@@ -438,6 +593,12 @@ export const AgentChatWidget: React.FC<AgentChatWidgetProps> = ({
       });
       const data = await res.json();
       setConversationId(data.conversationId);
+
+      const models: ModelOption[] = data.agent?.models || [];
+      setAvailableModels(models);
+      setSelectedModel((prev) =>
+        prev && models.some((m) => m.id === prev) ? prev : data.agent?.defaultModel || null
+      );
     };
     start().catch(console.error);
   }, [apiBaseUrl, agentId, externalUserId, showPreChat, userInfo]);
@@ -531,13 +692,380 @@ export const AgentChatWidget: React.FC<AgentChatWidgetProps> = ({
     return CAPABILITY_COMMANDS[capId] || getDefaultCommands(capId);
   };
 
-  const sendMessage = async () => {
-    if (!conversationId || (!input.trim() && attachments.length === 0) || isStreaming) return;
+  // Model to send with a request; only multi-model agents offer a choice
+  const modelOverride = () => (availableModels.length > 1 && selectedModel ? { model: selectedModel } : {});
+
+  // Convert a stored message into a widget message; operator replies show on the assistant side
+  const toChatMessage = (m: any): ChatMessage => ({
+    id: `${m.role}-${m.id}`,
+    role: m.role === 'user' ? 'user' : 'assistant',
+    content: m.content,
+    timestamp: new Date(m.createdAt || Date.now()),
+    citations: Array.isArray(m.metadata?.citations) ? m.metadata.citations : undefined,
+    suggestions: Array.isArray(m.metadata?.suggestions) ? m.metadata.suggestions : undefined,
+    serverId: m.id,
+    branch: m.branch,
+    operatorName: m.role === 'operator' ? m.metadata?.operatorName || 'Support' : undefined,
+    attachments: Array.isArray(m.attachments)
+      ? m.attachments.map((a: any) => ({
+          name: a.fileName,
+          url: `${apiBaseUrl}/api/chat/${m.conversationId}/attachments/${a.id}`,
+          type: a.mimeType,
+        }))
+      : undefined,
+  });
+
+  // Convert the server's active-branch messages into widget messages
+  const toChatMessages = (serverMessages: any[]): ChatMessage[] =>
+    serverMessages
+      .filter((m) => m.role === 'user' || m.role === 'assistant' || m.role === 'operator')
+      .map(toChatMessage);
+
+  // Append messages added outside of a reply (operator replies) that are not shown yet
+  const appendServerMessages = (serverMessages: any[]) =>
+    setMessages((prev) => {
+      const known = new Set(prev.map((m) => m.serverId));
+      const added = serverMessages.filter((m) => m.role !== 'user' && m.role !== 'system' && !known.has(m.id));
+      return added.length ? [...prev, ...added.map(toChatMessage)] : prev;
+    });
+
+  // Refresh sibling counts after a new branch was created
+  const syncBranches = async () => {
+    if (!conversationId) return;
+    const res = await fetch(`${apiBaseUrl}/api/chat/${conversationId}`);
+    if (!res.ok) return;
+    const data = await res.json();
+    const branches = new Map<number, BranchInfo>(
+      (data.messages || []).map((m: any) => [m.id as number, m.branch as BranchInfo])
+    );
+    setMessages((prev) =>
+      prev.map((m) => (m.serverId && branches.has(m.serverId) ? { ...m, branch: branches.get(m.serverId) } : m))
+    );
+  };
+
+  // Add an empty assistant message and return a handler that applies reply events to it.
+  // `userMessageId` is the local id of the user turn it answers, which receives its stored
+  // id when the reply ends. Both transports emit the same events.
+  const startAssistantReply = (userMessageId?: string) => {
+    let assistantContent = '';
+    const assistantId = `assistant-${Date.now()}`;
+    let lastEventId: string | undefined;
+    let finished = false;
+
+    // Stop typing indicator once we get first content
+    setIsTyping(false);
+    setMessages((prev) => [
+      ...prev,
+      { id: assistantId, role: 'assistant', content: '', timestamp: new Date() },
+    ]);
+
+    const handleEvent = (payload: any, eventId?: string) => {
+      if (eventId) lastEventId = eventId;
+      if (payload.event === 'start') {
+        streamIdRef.current = payload.streamId || null;
+      } else if (payload.event === 'delta') {
+        assistantContent += payload.delta;
+        setMessages((prev) =>
+          prev.map((m) => (m.id === assistantId ? { ...m, content: assistantContent } : m))
+        );
+      } else if (payload.event === 'suggestions') {
+        const suggestions: string[] = Array.isArray(payload.suggestions) ? payload.suggestions : [];
+        setMessages((prev) => prev.map((m) => (m.id === assistantId ? { ...m, suggestions } : m)));
+      } else if (payload.event === 'end') {
+        finished = true;
+        if (payload.full && typeof payload.full === 'string') {
+          assistantContent = payload.full;
+        }
+        const citations: Citation[] = Array.isArray(payload.citations) ? payload.citations : [];
+        const serverId = typeof payload.messageId === 'number' ? payload.messageId : undefined;
+        const userServerId = typeof payload.userMessageId === 'number' ? payload.userMessageId : undefined;
+        const interrupted = payload.interrupted === true;
+        if (payload.conversationStatus) {
+          setHandoff((prev) => ({ ...prev, status: payload.conversationStatus }));
+        }
+        setMessages((prev) =>
+          prev
+            // No reply while a person is handling the conversation
+            .filter((m) => m.id !== assistantId || serverId !== undefined || assistantContent)
+            .map((m) => {
+              if (m.id === assistantId) return { ...m, content: assistantContent, citations, serverId, interrupted };
+              if (userMessageId && m.id === userMessageId) return { ...m, serverId: userServerId };
+              return m;
+            })
+        );
+      } else if (payload.event === 'error') {
+        finished = true;
+        assistantContent = assistantContent || payload.error || 'Something went wrong.';
+        setMessages((prev) =>
+          prev.map((m) => (m.id === assistantId ? { ...m, content: assistantContent } : m))
+        );
+      }
+    };
+
+    return {
+      handleEvent,
+      isFinished: () => finished,
+      getLastEventId: () => lastEventId,
+      // Stopped by the user: keep the partial reply
+      markStopped: () =>
+        setMessages((prev) => prev.map((m) => (m.id === assistantId ? { ...m, interrupted: true } : m))),
+    };
+  };
+
+  // Read a reply SSE stream into a new assistant message.
+  // If the connection drops before the end, the reply is resumed from the last event received.
+  const readReplyStream = async (res: Response, userMessageId?: string) => {
+    if (!res.body) {
+      setIsTyping(false);
+      return;
+    }
+
+    const reply = startAssistantReply(userMessageId);
+    let pendingEventId: string | undefined;
+
+    const processLine = (line: string) => {
+      if (line.startsWith('id:')) {
+        pendingEventId = line.slice(3).trim();
+        return;
+      }
+      if (!line.startsWith('data:')) return;
+      const json = line.replace(/^data:\s*/, '');
+      if (!json) return;
+      try {
+        reply.handleEvent(JSON.parse(json), pendingEventId);
+      } catch (e) {
+        // ignore parse errors
+      }
+    };
+
+    // Events can be split across chunks, so only complete lines are processed
+    const readBody = async (body: ReadableStream<Uint8Array>) => {
+      const reader = body.getReader();
+      const decoder = new TextDecoder('utf-8');
+      let buffer = '';
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(processLine);
+      }
+    };
+
+    let body: ReadableStream<Uint8Array> | null = res.body;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        if (body) await readBody(body);
+      } catch (err) {
+        if (isAbortError(err)) return reply.markStopped();
+      }
+      if (reply.isFinished() || attempt >= MAX_STREAM_RESUMES) break;
+
+      await new Promise((resolve) => setTimeout(resolve, (attempt + 1) * 1000));
+      if (streamAbortRef.current?.signal.aborted) return reply.markStopped();
+
+      try {
+        const lastEventId = reply.getLastEventId();
+        const query = lastEventId ? `?lastEventId=${encodeURIComponent(lastEventId)}` : '';
+        const resumed = await fetch(`${apiBaseUrl}/api/chat/${conversationId}/stream${query}`, {
+          signal: streamAbortRef.current?.signal ?? null,
+        });
+        // 204: the reply is no longer buffered on the server
+        if (resumed.status === 204) break;
+        body = resumed.ok ? resumed.body : null;
+      } catch (err) {
+        if (isAbortError(err)) return reply.markStopped();
+        body = null;
+      }
+    }
+  };
+
+  // Events pushed for the conversation outside of a reply (typing, messages from the server,
+  // handoff status). The user's own messages are already shown.
+  const handlePushedEvent = (payload: any) => {
+    if (payload.event === 'typing') {
+      setIsTyping(payload.typing === true);
+    } else if (payload.event === 'message' && payload.message) {
+      setIsTyping(false);
+      appendServerMessages([payload.message]);
+    } else if (payload.event === 'status') {
+      setHandoff({ status: payload.status, operatorName: payload.operatorName || null });
+    }
+  };
+
+  // Open the chat WebSocket, or reuse the open one
+  const getSocket = () =>
+    new Promise<WebSocket>((resolve, reject) => {
+      let socket = socketRef.current;
+      if (socket && socket.readyState === WebSocket.OPEN) return resolve(socket);
+
+      if (!socket || socket.readyState !== WebSocket.CONNECTING) {
+        const base = (apiBaseUrl || window.location.origin).replace(/^http/, 'ws');
+        const created = new WebSocket(`${base}/api/chat/ws`);
+        // (Re)subscribe to the conversation's pushed events on every new connection
+        created.onopen = () => {
+          if (conversationId) created.send(JSON.stringify({ type: 'subscribe', conversationId }));
+        };
+        created.onmessage = (e) => {
+          let payload: any;
+          try {
+            payload = JSON.parse(e.data);
+          } catch {
+            return;
+          }
+          if (payload.requestId) {
+            socketHandlersRef.current.get(payload.requestId)?.(payload);
+          } else {
+            handlePushedEvent(payload);
+          }
+        };
+        created.onclose = () => {
+          if (socketRef.current === created) socketRef.current = null;
+          for (const handler of [...socketHandlersRef.current.values()]) handler({ event: 'disconnected' });
+        };
+        socketRef.current = created;
+        socket = created;
+      }
+
+      socket.addEventListener('open', () => resolve(socket!), { once: true });
+      socket.addEventListener('error', () => reject(new Error('WebSocket connection failed')), { once: true });
+    });
+
+  // Run a reply over the WebSocket. If the socket drops mid-reply, reconnect and resume.
+  const socketReply = async (request: ReplyRequest, signal: AbortSignal, userMessageId?: string) => {
+    const reply = startAssistantReply(userMessageId);
+    const requestId = `req-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    let attempts = 0;
+
+    await new Promise<void>((resolve) => {
+      const finish = () => {
+        socketHandlersRef.current.delete(requestId);
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        reply.markStopped();
+        finish();
+      };
+
+      const sendRequest = (payload: Record<string, unknown>) =>
+        getSocket()
+          .then((socket) => socket.send(JSON.stringify({ ...payload, requestId, conversationId })))
+          .catch(() => handleSocketEvent({ event: 'disconnected' }));
+
+      const handleSocketEvent = (payload: any) => {
+        if (payload.event !== 'disconnected') {
+          reply.handleEvent(payload, payload.id);
+          if (reply.isFinished()) finish();
+          return;
+        }
+        if (signal.aborted) return;
+        if (attempts >= MAX_STREAM_RESUMES) return finish();
+        attempts++;
+        setTimeout(() => sendRequest({ type: 'resume', lastEventId: reply.getLastEventId() }), attempts * 1000);
+      };
+
+      signal.addEventListener('abort', onAbort);
+      socketHandlersRef.current.set(requestId, handleSocketEvent);
+      sendRequest({ ...request, ...modelOverride() });
+    });
+  };
+
+  // Start a reply over the configured transport and read it into a new assistant message
+  const requestReply = async (request: ReplyRequest, signal: AbortSignal, userMessageId?: string) => {
+    if (transport === 'websocket') return socketReply(request, signal, userMessageId);
+
+    const { path, body } = toStreamRequest(request);
+    const res = await fetch(`${apiBaseUrl}/api/chat/${conversationId}${path}`, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...body, ...modelOverride() }),
+    });
+    if (!res.ok) {
+      // Refused before a reply started, e.g. 429 when the agent's limits are reached
+      const data = await res.json().catch(() => ({}));
+      startAssistantReply(userMessageId).handleEvent({ event: 'error', error: data.error });
+      return;
+    }
+    await readReplyStream(res, userMessageId);
+  };
+
+  // Tell the server (and any operator watching) that the user is typing; WebSocket only
+  const notifyTyping = (value: string) => {
+    if (transport !== 'websocket' || !conversationId) return;
+    const typing = value.length > 0;
+    const now = Date.now();
+    if (typing ? now - lastTypingRef.current < TYPING_THROTTLE_MS : !lastTypingRef.current) return;
+    lastTypingRef.current = typing ? now : 0;
+    getSocket()
+      .then((socket) => socket.send(JSON.stringify({ type: 'typing', conversationId, typing })))
+      .catch(() => {});
+  };
+
+  // Abort controller for the reply being streamed, so the user can stop it
+  const beginStream = () => {
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+    streamIdRef.current = null;
+    setIsStreaming(true);
+    setIsTyping(true);
+    return controller.signal;
+  };
+
+  // The server keeps generating for a while after a disconnect, so ask it to stop explicitly
+  const stopStreaming = () => {
+    if (conversationId) {
+      fetch(`${apiBaseUrl}/api/chat/${conversationId}/stop`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(streamIdRef.current ? { streamId: streamIdRef.current } : {}),
+      }).catch((err) => console.error(err));
+    }
+    streamAbortRef.current?.abort();
+  };
+
+  // With the WebSocket transport, subscribe as soon as there is a conversation to receive pushed events
+  useEffect(() => {
+    if (transport !== 'websocket' || !conversationId) return;
+    getSocket()
+      .then((socket) => socket.send(JSON.stringify({ type: 'subscribe', conversationId })))
+      .catch((err) => console.error(err));
+  }, [transport, conversationId]);
+
+  // Close the socket when the widget unmounts
+  useEffect(() => () => socketRef.current?.close(), []);
+
+  // Poll for operator replies and status changes while a person is involved (SSE transport)
+  useEffect(() => {
+    if (transport === 'websocket' || !conversationId) return;
+    if (handoff.status !== 'pending_human' && handoff.status !== 'human') return;
+
+    const timer = setInterval(async () => {
+      try {
+        const res = await fetch(`${apiBaseUrl}/api/chat/${conversationId}`);
+        if (!res.ok) return;
+        const data = await res.json();
+        if (data.conversation?.status) {
+          setHandoff({ status: data.conversation.status, operatorName: data.conversation.operatorName || null });
+        }
+        appendServerMessages(data.messages || []);
+      } catch (err) {
+        console.error(err);
+      }
+    }, HANDOFF_POLL_MS);
+    return () => clearInterval(timer);
+  }, [transport, conversationId, handoff.status]);
+
+  // `text` sends a suggestion or starter prompt instead of the input box
+  const sendMessage = async (text: string = input) => {
+    if (!conversationId || (!text.trim() && attachments.length === 0) || isStreaming) return;
 
     const userMessage: ChatMessage = {
       id: `user-${Date.now()}`,
       role: 'user',
-      content: input,
+      content: text,
       timestamp: new Date(),
       attachments: attachments.map((f) => ({
         name: f.name,
@@ -547,15 +1075,16 @@ export const AgentChatWidget: React.FC<AgentChatWidgetProps> = ({
     };
     setMessages((prev) => [...prev, userMessage]);
 
-    const text = input;
-    setInput('');
+    if (text === input) {
+      setInput('');
+      notifyTyping('');
+    }
     setAttachments([]);
-    setIsStreaming(true);
-    setIsTyping(true);
+    const signal = beginStream();
 
     try {
       // If we have attachments, upload them first
-      let uploadedFiles: string[] = [];
+      let uploadedFiles: number[] = [];
       if (attachments.length > 0) {
         const formData = new FormData();
         attachments.forEach((f) => formData.append('files', f));
@@ -565,78 +1094,100 @@ export const AgentChatWidget: React.FC<AgentChatWidgetProps> = ({
           method: 'POST',
           body: formData,
         });
+        const uploadData = await uploadRes.json();
         if (uploadRes.ok) {
-          const uploadData = await uploadRes.json();
           uploadedFiles = uploadData.fileIds || [];
+        } else {
+          console.error('[widget] Attachment upload failed:', uploadData.error);
         }
       }
 
-      const res = await fetch(`${apiBaseUrl}/api/chat/${conversationId}/stream`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message: text, fileIds: uploadedFiles }),
-      });
-
-      if (!res.body) {
-        setIsStreaming(false);
-        setIsTyping(false);
-        return;
-      }
+      await requestReply({ type: 'send', message: text, fileIds: uploadedFiles }, signal, userMessage.id);
+    } catch (err) {
+      if (!isAbortError(err)) console.error(err);
+      setIsTyping(false);
+    } finally {
+      streamAbortRef.current = null;
+      setIsStreaming(false);
+    }
+  };
 
-      const reader = res.body.getReader();
-      const decoder = new TextDecoder('utf-8');
+  // Ask for another answer to the same question; the previous one stays as a branch
+  const regenerateMessage = async (message: ChatMessage) => {
+    if (!conversationId || !message.serverId || isStreaming) return;
 
-      let assistantContent = '';
-      const assistantId = `assistant-${Date.now()}`;
+    setMessages((prev) => prev.slice(0, prev.findIndex((m) => m.id === message.id)));
+    const signal = beginStream();
 
-      // Stop typing indicator once we get first content
+    try {
+      await requestReply({ type: 'regenerate', messageId: message.serverId }, signal);
+      await syncBranches();
+    } catch (err) {
+      if (!isAbortError(err)) console.error(err);
       setIsTyping(false);
-      setMessages((prev) => [
-        ...prev,
-        { id: assistantId, role: 'assistant', content: '', timestamp: new Date() },
-      ]);
-
-      const processChunk = (chunk: string) => {
-        const lines = chunk.split('\n');
-        for (const line of lines) {
-          if (!line.startsWith('data:')) continue;
-          const json = line.replace(/^data:\s*/, '');
-          if (!json) continue;
-          try {
-            const payload = JSON.parse(json);
-            if (payload.event === 'delta') {
-              assistantContent += payload.delta;
-              setMessages((prev) =>
-                prev.map((m) => (m.id === assistantId ? { ...m, content: assistantContent } : m))
-              );
-            } else if (payload.event === 'end') {
-              if (payload.full && typeof payload.full === 'string') {
-                assistantContent = payload.full;
-                setMessages((prev) =>
-                  prev.map((m) => (m.id === assistantId ? { ...m, content: assistantContent } : m))
-                );
-              }
-            }
-          } catch (e) {
-            // ignore parse errors
-          }
-        }
-      };
+    } finally {
+      streamAbortRef.current = null;
+      setIsStreaming(false);
+    }
+  };
 
-      while (true) {
-        const { value, done } = await reader.read();
-        if (done) break;
-        const chunkText = decoder.decode(value, { stream: true });
-        processChunk(chunkText);
-      }
+  // Re-send an edited user message from its point in the conversation as a new branch
+  const resendEditedMessage = async (message: ChatMessage, content: string) => {
+    if (!conversationId || !message.serverId || isStreaming || !content.trim()) return;
+
+    const edited: ChatMessage = { id: `user-${Date.now()}`, role: 'user', content, timestamp: new Date() };
+    setEditDraft(null);
+    setMessages((prev) => [...prev.slice(0, prev.findIndex((m) => m.id === message.id)), edited]);
+    const signal = beginStream();
+
+    try {
+      await requestReply({ type: 'edit', messageId: message.serverId, message: content }, signal, edited.id);
+      await syncBranches();
     } catch (err) {
-      console.error(err);
+      if (!isAbortError(err)) console.error(err);
       setIsTyping(false);
     } finally {
+      streamAbortRef.current = null;
       setIsStreaming(false);
     }
   };
 
+  // Show another sibling of a message (and the rest of that branch)
+  const switchBranch = async (message: ChatMessage, direction: -1 | 1) => {
+    if (!conversationId || !message.branch || isStreaming) return;
+    const targetId = message.branch.siblingIds[message.branch.index + direction];
+    if (!targetId) return;
+
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/chat/${conversationId}/branch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messageId: targetId }),
+      });
+      if (!res.ok) return;
+      const data = await res.json();
+      setEditDraft(null);
+      setFeedbackDraft(null);
+      setMessages(toChatMessages(data.messages || []));
+    } catch (err) {
+      console.error('Failed to switch branch:', err);
+    }
+  };
+
+  const sendFeedback = async (message: ChatMessage, rating: 'up' | 'down', comment?: string) => {
+    if (!conversationId || !message.serverId) return;
+    setMessages((prev) => prev.map((m) => (m.id === message.id ? { ...m, feedback: rating } : m)));
+    try {
+      await fetch(`${apiBaseUrl}/api/chat/${conversationId}/messages/${message.serverId}/feedback`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rating, ...(comment ? { comment } : {}) }),
+      });
+    } catch (err) {
+      console.error('Failed to send feedback:', err);
+    }
+  };
+
   const onKeyDown: React.KeyboardEventHandler<HTMLTextAreaElement> = (e) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -741,6 +1292,10 @@ export const AgentChatWidget: React.FC<AgentChatWidgetProps> = ({
     </div>
   );
 
+  // Follow-ups offered after the latest reply; hidden once the user moves on
+  const lastMessage = messages[messages.length - 1];
+  const lastSuggestions = lastMessage?.role === 'assistant' ? lastMessage.suggestions || [] : [];
+
   // Main chat panel
   const chatPanel = (
     <div
@@ -821,26 +1376,53 @@ export const AgentChatWidget: React.FC<AgentChatWidgetProps> = ({
             </div>
           </div>
         </div>
-        {mode === 'launcher' && (
-          <button
-            onClick={handleClose}
-            style={{
-              background: 'rgba(255,255,255,0.2)',
-              border: 'none',
-              borderRadius: 8,
-              padding: 6,
-              cursor: 'pointer',
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-            }}
-          >
-            <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2">
-              <line x1="18" y1="6" x2="6" y2="18" />
-              <line x1="6" y1="6" x2="18" y2="18" />
-            </svg>
-          </button>
-        )}
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          {/* Model picker (multi-model agents only) */}
+          {availableModels.length > 1 && (
+            <select
+              value={selectedModel || ''}
+              onChange={(e) => setSelectedModel(e.target.value)}
+              disabled={isStreaming}
+              title="Model"
+              style={{
+                maxWidth: 140,
+                padding: '4px 6px',
+                borderRadius: 8,
+                border: 'none',
+                background: 'rgba(255,255,255,0.2)',
+                color: 'var(--agent-header-title-color)',
+                fontSize: 12,
+                cursor: isStreaming ? 'not-allowed' : 'pointer',
+              }}
+            >
+              {availableModels.map((m) => (
+                <option key={m.id} value={m.id} style={{ color: '#111827' }}>
+                  {m.name}
+                </option>
+              ))}
+            </select>
+          )}
+          {mode === 'launcher' && (
+            <button
+              onClick={handleClose}
+              style={{
+                background: 'rgba(255,255,255,0.2)',
+                border: 'none',
+                borderRadius: 8,
+                padding: 6,
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+              }}
+            >
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2">
+                <line x1="18" y1="6" x2="6" y2="18" />
+                <line x1="6" y1="6" x2="18" y2="18" />
+              </svg>
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Messages or Pre-chat */}
@@ -899,6 +1481,20 @@ export const AgentChatWidget: React.FC<AgentChatWidgetProps> = ({
                 <p style={{ margin: 0, fontSize: 13, color: 'var(--agent-text-secondary)', lineHeight: 1.5 }}>
                   {mergedTheme.welcomeMessage}
                 </p>
+                {starterPrompts.length > 0 && (
+                  <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: 6, marginTop: 16 }}>
+                    {starterPrompts.map((prompt) => (
+                      <button
+                        key={prompt}
+                        style={promptChipStyle}
+                        disabled={!conversationId}
+                        onClick={() => sendMessage(prompt)}
+                      >
+                        {prompt}
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
             )}
 
@@ -959,27 +1555,88 @@ export const AgentChatWidget: React.FC<AgentChatWidgetProps> = ({
                     )}
 
                     <div style={{ maxWidth: '80%' }}>
-                      <div
-                        style={{
-                          borderRadius: m.role === 'user' ? '16px 16px 4px 16px' : '16px 16px 16px 4px',
-                          padding: '10px 14px',
-                          fontSize: 14,
-                          lineHeight: 1.5,
-                          whiteSpace: 'pre-wrap',
-                          wordBreak: 'break-word',
-                          background:
-                            m.role === 'user'
-                              ? 'var(--agent-user-bubble)'
-                              : 'var(--agent-assistant-bubble)',
-                          color:
-                            m.role === 'user'
-                              ? 'var(--agent-user-bubble-text)'
-                              : 'var(--agent-assistant-bubble-text)',
-                          boxShadow: '0 1px 2px rgba(0,0,0,0.05)',
-                        }}
-                      >
-                        {m.content}
-                      </div>
+                      {m.operatorName && (
+                        <div style={{ marginBottom: 2, fontSize: 11, color: 'var(--agent-text-secondary)' }}>
+                          {m.operatorName}
+                        </div>
+                      )}
+                      {editDraft?.messageId === m.id ? (
+                        <form
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            resendEditedMessage(m, editDraft.content);
+                          }}
+                          style={{ display: 'flex', flexDirection: 'column', gap: 4, minWidth: 220 }}
+                        >
+                          <textarea
+                            autoFocus
+                            rows={3}
+                            value={editDraft.content}
+                            onChange={(e) => setEditDraft({ messageId: m.id, content: e.target.value })}
+                            style={{
+                              padding: '8px 10px',
+                              borderRadius: 10,
+                              border: '1px solid var(--agent-input-border)',
+                              background: 'var(--agent-input-bg)',
+                              color: 'var(--agent-text)',
+                              fontSize: 14,
+                              fontFamily: 'inherit',
+                              resize: 'vertical',
+                            }}
+                          />
+                          <div style={{ display: 'flex', gap: 4, justifyContent: 'flex-end' }}>
+                            <button
+                              type="button"
+                              onClick={() => setEditDraft(null)}
+                              style={{ ...messageActionStyle, padding: '4px 10px', fontSize: 12 }}
+                            >
+                              Cancel
+                            </button>
+                            <button
+                              type="submit"
+                              disabled={!editDraft.content.trim()}
+                              style={{
+                                padding: '4px 10px',
+                                borderRadius: 6,
+                                border: 'none',
+                                background: 'var(--agent-primary)',
+                                color: '#fff',
+                                fontSize: 12,
+                                cursor: 'pointer',
+                              }}
+                            >
+                              Send
+                            </button>
+                          </div>
+                        </form>
+                      ) : (
+                        <div
+                          style={{
+                            borderRadius: m.role === 'user' ? '16px 16px 4px 16px' : '16px 16px 16px 4px',
+                            padding: '10px 14px',
+                            fontSize: 14,
+                            lineHeight: 1.5,
+                            whiteSpace: 'pre-wrap',
+                            wordBreak: 'break-word',
+                            background:
+                              m.role === 'user'
+                                ? 'var(--agent-user-bubble)'
+                                : 'var(--agent-assistant-bubble)',
+                            color:
+                              m.role === 'user'
+                                ? 'var(--agent-user-bubble-text)'
+                                : 'var(--agent-assistant-bubble-text)',
+                            boxShadow: '0 1px 2px rgba(0,0,0,0.05)',
+                          }}
+                        >
+                          {m.role === 'assistant' ? renderWithCitations(m.content, m.citations) : m.content}
+                        </div>
+                      )}
+                      {m.interrupted && (
+                        <div style={{ marginTop: 4, fontSize: 11, color: 'var(--agent-text-secondary)' }}>
+                          Stopped
+                        </div>
+                      )}
                       {m.attachments && m.attachments.length > 0 && (
                         <div style={{ display: 'flex', gap: 4, marginTop: 4, flexWrap: 'wrap' }}>
                           {m.attachments.map((att, i) => (
@@ -998,6 +1655,132 @@ export const AgentChatWidget: React.FC<AgentChatWidgetProps> = ({
                           ))}
                         </div>
                       )}
+                      {m.serverId && !isStreaming && (
+                        <div
+                          style={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: 2,
+                            marginTop: 4,
+                            justifyContent: m.role === 'user' ? 'flex-end' : 'flex-start',
+                            fontSize: 11,
+                            color: 'var(--agent-text-secondary)',
+                          }}
+                        >
+                          {m.branch && m.branch.count > 1 && (
+                            <span style={{ display: 'inline-flex', alignItems: 'center', marginRight: 4 }}>
+                              <button
+                                type="button"
+                                title="Previous version"
+                                disabled={m.branch.index === 0}
+                                onClick={() => switchBranch(m, -1)}
+                                style={{ ...messageActionStyle, opacity: m.branch.index === 0 ? 0.35 : 1 }}
+                              >
+                                ‹
+                              </button>
+                              {m.branch.index + 1}/{m.branch.count}
+                              <button
+                                type="button"
+                                title="Next version"
+                                disabled={m.branch.index === m.branch.count - 1}
+                                onClick={() => switchBranch(m, 1)}
+                                style={{
+                                  ...messageActionStyle,
+                                  opacity: m.branch.index === m.branch.count - 1 ? 0.35 : 1,
+                                }}
+                              >
+                                ›
+                              </button>
+                            </span>
+                          )}
+                          {m.role === 'user' && editDraft?.messageId !== m.id && (
+                            <button
+                              type="button"
+                              title="Edit and resend"
+                              onClick={() => setEditDraft({ messageId: m.id, content: m.content })}
+                              style={messageActionStyle}
+                            >
+                              ✎
+                            </button>
+                          )}
+                          {m.role === 'assistant' && !m.operatorName && (
+                            <button
+                              type="button"
+                              title="Regenerate"
+                              onClick={() => regenerateMessage(m)}
+                              style={messageActionStyle}
+                            >
+                              ↻
+                            </button>
+                          )}
+                          {m.role === 'assistant' &&
+                            !m.operatorName &&
+                            (['up', 'down'] as const).map((rating) => (
+                              <button
+                                key={rating}
+                                type="button"
+                                title={rating === 'up' ? 'Helpful' : 'Not helpful'}
+                                onClick={() => {
+                                  if (rating === 'up') {
+                                    setFeedbackDraft(null);
+                                    sendFeedback(m, 'up');
+                                  } else {
+                                    sendFeedback(m, 'down');
+                                    setFeedbackDraft({ messageId: m.id, comment: '' });
+                                  }
+                                }}
+                                style={{
+                                  ...messageActionStyle,
+                                  opacity: m.feedback && m.feedback !== rating ? 0.35 : 1,
+                                  filter: m.feedback === rating ? 'none' : 'grayscale(1)',
+                                }}
+                              >
+                                {rating === 'up' ? '👍' : '👎'}
+                              </button>
+                            ))}
+                        </div>
+                      )}
+                      {feedbackDraft?.messageId === m.id && (
+                        <form
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            sendFeedback(m, 'down', feedbackDraft.comment.trim());
+                            setFeedbackDraft(null);
+                          }}
+                          style={{ display: 'flex', gap: 4, marginTop: 4 }}
+                        >
+                          <input
+                            type="text"
+                            autoFocus
+                            placeholder="What was wrong? (optional)"
+                            value={feedbackDraft.comment}
+                            onChange={(e) => setFeedbackDraft({ messageId: m.id, comment: e.target.value })}
+                            style={{
+                              flex: 1,
+                              padding: '4px 8px',
+                              borderRadius: 6,
+                              border: '1px solid var(--agent-input-border)',
+                              background: 'var(--agent-input-bg)',
+                              color: 'var(--agent-text)',
+                              fontSize: 12,
+                            }}
+                          />
+                          <button
+                            type="submit"
+                            style={{
+                              padding: '4px 10px',
+                              borderRadius: 6,
+                              border: 'none',
+                              background: 'var(--agent-primary)',
+                              color: '#fff',
+                              fontSize: 12,
+                              cursor: 'pointer',
+                            }}
+                          >
+                            Send
+                          </button>
+                        </form>
+                      )}
                     </div>
 
                     {m.role === 'user' && (
@@ -1024,6 +1807,16 @@ export const AgentChatWidget: React.FC<AgentChatWidgetProps> = ({
               );
             })}
 
+            {lastSuggestions.length > 0 && !isStreaming && handoff.status === 'bot' && (
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, paddingLeft: 36 }}>
+                {lastSuggestions.map((suggestion) => (
+                  <button key={suggestion} style={promptChipStyle} onClick={() => sendMessage(suggestion)}>
+                    {suggestion}
+                  </button>
+                ))}
+              </div>
+            )}
+
             {isTyping && (
               <TypingIndicator avatarUrl={resolvedAvatarUrl} avatarLabel={mergedTheme.avatarLabel} />
             )}
@@ -1031,6 +1824,25 @@ export const AgentChatWidget: React.FC<AgentChatWidgetProps> = ({
             <div ref={messagesEndRef} />
           </div>
 
+          {/* Handoff Status */}
+          {handoff.status !== 'bot' && (
+            <div
+              style={{
+                padding: '8px 16px',
+                borderTop: '1px solid rgba(148,163,184,0.2)',
+                fontSize: 12,
+                textAlign: 'center',
+                color: 'var(--agent-text-secondary)',
+              }}
+            >
+              {handoff.status === 'pending_human'
+                ? 'Connecting you with a team member…'
+                : handoff.status === 'human'
+                  ? `${handoff.operatorName || 'A team member'} has joined the conversation`
+                  : 'This conversation was closed. Send a message to continue with the assistant.'}
+            </div>
+          )}
+
           {/* Attachments Preview */}
           {attachments.length > 0 && (
             <div
@@ -1404,14 +2216,17 @@ export const AgentChatWidget: React.FC<AgentChatWidgetProps> = ({
                     multiple
                     onChange={handleFileSelect}
                     style={{ display: 'none' }}
-                    accept="image/*,.pdf,.doc,.docx,.txt,.md"
+                    accept="image/png,image/jpeg,image/gif,image/webp,.pdf,.doc,.docx,.txt,.md"
                   />
                 </>
               )}
 
               <textarea
                 value={input}
-                onChange={(e) => setInput(e.target.value)}
+                onChange={(e) => {
+                  setInput(e.target.value);
+                  notifyTyping(e.target.value);
+                }}
                 onKeyDown={onKeyDown}
                 rows={1}
                 placeholder={isStreaming ? 'Waiting for response...' : mergedTheme.placeholderText}
@@ -1432,36 +2247,62 @@ export const AgentChatWidget: React.FC<AgentChatWidgetProps> = ({
                 }}
               />
 
-              <button
-                type="button"
-                onClick={sendMessage}
-                disabled={!conversationId || (!input.trim() && attachments.length === 0) || isStreaming}
-                style={{
-                  padding: '10px 16px',
-                  borderRadius: 10,
-                  border: 'none',
-                  cursor:
-                    !conversationId || (!input.trim() && attachments.length === 0) || isStreaming
-                      ? 'not-allowed'
-                      : 'pointer',
-                  opacity:
-                    !conversationId || (!input.trim() && attachments.length === 0) || isStreaming
-                      ? 0.5
-                      : 1,
-                  background: 'linear-gradient(135deg, var(--agent-primary), #4f46e5)',
-                  color: '#ffffff',
-                  fontSize: 14,
-                  fontWeight: 500,
-                  display: 'flex',
-                  alignItems: 'center',
-                  gap: 6,
-                }}
-              >
-                <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                  <line x1="22" y1="2" x2="11" y2="13" />
-                  <polygon points="22 2 15 22 11 13 2 9 22 2" />
-                </svg>
-              </button>
+              {isStreaming ? (
+                <button
+                  type="button"
+                  onClick={stopStreaming}
+                  title="Stop generating"
+                  style={{
+                    padding: '10px 16px',
+                    borderRadius: 10,
+                    border: '1px solid var(--agent-input-border)',
+                    cursor: 'pointer',
+                    background: 'var(--agent-input-bg)',
+                    color: 'var(--agent-text)',
+                    fontSize: 14,
+                    fontWeight: 500,
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 6,
+                  }}
+                >
+                  <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
+                    <rect x="5" y="5" width="14" height="14" rx="2" />
+                  </svg>
+                  Stop
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => sendMessage()}
+                  disabled={!conversationId || (!input.trim() && attachments.length === 0) || isStreaming}
+                  style={{
+                    padding: '10px 16px',
+                    borderRadius: 10,
+                    border: 'none',
+                    cursor:
+                      !conversationId || (!input.trim() && attachments.length === 0) || isStreaming
+                        ? 'not-allowed'
+                        : 'pointer',
+                    opacity:
+                      !conversationId || (!input.trim() && attachments.length === 0) || isStreaming
+                        ? 0.5
+                        : 1,
+                    background: 'linear-gradient(135deg, var(--agent-primary), #4f46e5)',
+                    color: '#ffffff',
+                    fontSize: 14,
+                    fontWeight: 500,
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 6,
+                  }}
+                >
+                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <line x1="22" y1="2" x2="11" y2="13" />
+                    <polygon points="22 2 15 22 11 13 2 9 22 2" />
+                  </svg>
+                </button>
+              )}
             </div>
           </div>
 
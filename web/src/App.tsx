@@ -5,6 +5,11 @@ import { KnowledgeBaseManager } from './KnowledgeBaseManager';
 import { AgentConfig } from './pages/AgentConfig';
 import { Capabilities } from './pages/Capabilities';
 import { Tools } from './pages/Tools';
+import { Conversations } from './pages/Conversations';
+import { Feedback } from './pages/Feedback';
+import { Inbox } from './pages/Inbox';
+import { Usage } from './pages/Usage';
+import { Models } from './pages/Models';
 import { AgentTheme, defaultTheme } from './theme';
 import { AdminThemeProvider, useAdminTheme, ThemeToggle } from './AdminThemeContext';
 
@@ -95,6 +100,11 @@ const AppContent: React.FC = () => {
         <nav style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
           <NavLink href="/chat">Chat</NavLink>
           <NavLink href="/knowledge">Knowledge Base</NavLink>
+          <NavLink href="/conversations">Conversations</NavLink>
+          <NavLink href="/inbox">Inbox</NavLink>
+          <NavLink href="/feedback">Feedback</NavLink>
+          <NavLink href="/usage">Usage</NavLink>
+          <NavLink href="/models">Models</NavLink>
           <NavLink href="/capabilities">Capabilities</NavLink>
           <NavLink href="/config">Configuration</NavLink>
           <NavLink href="/tools">Tools</NavLink>
@@ -113,6 +123,21 @@ const AppContent: React.FC = () => {
           <Route path="/knowledge">
             <KnowledgePage apiBaseUrl={apiBaseUrl} theme={theme} />
           </Route>
+          <Route path="/conversations">
+            <Conversations apiBaseUrl={apiBaseUrl} />
+          </Route>
+          <Route path="/inbox">
+            <Inbox apiBaseUrl={apiBaseUrl} />
+          </Route>
+          <Route path="/feedback">
+            <Feedback apiBaseUrl={apiBaseUrl} />
+          </Route>
+          <Route path="/usage">
+            <Usage apiBaseUrl={apiBaseUrl} />
+          </Route>
+          <Route path="/models">
+            <Models apiBaseUrl={apiBaseUrl} />
+          </Route>
           <Route path="/capabilities">
             <Capabilities apiBaseUrl={apiBaseUrl} />
           </Route>
@@ -46,10 +46,58 @@ interface AgentBranding {
   // Welcome
   welcomeTitle?: string;
   welcomeMessage?: string;
+  starterPrompts?: string[];
   // Dark mode
   darkMode?: boolean;
 }
 
+interface HandoffSettings {
+  enabled: boolean;
+  keywords: string[];
+  modelEscalation: boolean;
+  message: string;
+}
+
+interface SuggestionSettings {
+  enabled: boolean;
+  count: number;
+}
+
+interface FallbackSettings {
+  models: string[];
+  retries: number;
+  backoffMs: number;
+  timeoutMs: number;
+}
+
+// Fallback models an agent can list, tried in order
+const FALLBACK_SLOTS = 3;
+
+// Seconds from an input, as milliseconds clamped to what the server accepts
+const toMs = (value: string, min: number, max: number) =>
+  Math.round(Math.min(Math.max(Number(value) || min, min), max) * 1000);
+
+interface GenerationSettings {
+  temperature: number | null;
+  topP: number | null;
+  maxOutputTokens: number | null;
+  stopSequences: string[];
+  claude: { thinkingBudgetTokens: number | null };
+}
+
+// Empty generation fields leave the provider default
+const toSetting = (value: string) => (value.trim() ? Number(value) : null);
+
+interface LimitSettings {
+  messagesPerMinute: number | null;
+  dailyTokenBudget: number | null;
+  monthlySpendCapUsd: number | null;
+  alertThreshold: number;
+}
+
+// Empty limit fields turn the limit off
+const toLimit = (value: string) => (value.trim() && Number(value) > 0 ? Number(value) : null);
+
 interface Agent {
   id: string;
   slug: string;
@@ -60,6 +108,11 @@ interface Agent {
   modelMode?: 'single' | 'multi';
   allowedModels?: string[] | null;
   branding?: AgentBranding | null;
+  handoff?: HandoffSettings;
+  limits?: LimitSettings;
+  suggestions?: SuggestionSettings;
+  modelFallback?: FallbackSettings;
+  generation?: GenerationSettings;
 }
 
 export interface AgentConfigProps {
@@ -82,6 +135,35 @@ export const AgentConfig: React.FC<AgentConfigProps> = ({ apiBaseUrl }) => {
   const [modelMode, setModelMode] = useState<'single' | 'multi'>('single');
   const [allowedModels, setAllowedModels] = useState<string[]>([]);
 
+  // Human handoff (keywords edited one per line)
+  const [handoffEnabled, setHandoffEnabled] = useState(false);
+  const [handoffKeywords, setHandoffKeywords] = useState('');
+  const [handoffModelEscalation, setHandoffModelEscalation] = useState(false);
+  const [handoffMessage, setHandoffMessage] = useState('');
+
+  // Follow-up question suggestions
+  const [suggestionsEnabled, setSuggestionsEnabled] = useState(false);
+  const [suggestionCount, setSuggestionCount] = useState(3);
+
+  // Model fallback chain (empty slots unused) and retry policy, times in seconds
+  const [fallbackModels, setFallbackModels] = useState<string[]>(Array(FALLBACK_SLOTS).fill(''));
+  const [fallbackRetries, setFallbackRetries] = useState(2);
+  const [fallbackBackoff, setFallbackBackoff] = useState('1');
+  const [fallbackTimeout, setFallbackTimeout] = useState('60');
+
+  // Generation parameters (empty = provider default); stop sequences edited one per line
+  const [temperature, setTemperature] = useState('');
+  const [topP, setTopP] = useState('');
+  const [maxOutputTokens, setMaxOutputTokens] = useState('');
+  const [stopSequences, setStopSequences] = useState('');
+  const [thinkingBudget, setThinkingBudget] = useState('');
+
+  // Chat limits (empty = off) and alert threshold in percent
+  const [messagesPerMinute, setMessagesPerMinute] = useState('');
+  const [dailyTokenBudget, setDailyTokenBudget] = useState('');
+  const [monthlySpendCap, setMonthlySpendCap] = useState('');
+  const [alertThresholdPercent, setAlertThresholdPercent] = useState('80');
+
   // UI state
   const [savingAgent, setSavingAgent] = useState(false);
   const [saveMessage, setSaveMessage] = useState<string | null>(null);
@@ -168,6 +250,29 @@ export const AgentConfig: React.FC<AgentConfigProps> = ({ apiBaseUrl }) => {
           setModelMode(a.modelMode || 'single');
           setAllowedModels(a.allowedModels || []);
           setBranding(a.branding || {});
+          setHandoffEnabled(a.handoff?.enabled === true);
+          setHandoffKeywords((a.handoff?.keywords || []).join('\n'));
+          setHandoffModelEscalation(a.handoff?.modelEscalation === true);
+          setHandoffMessage(a.handoff?.message || '');
+          setSuggestionsEnabled(a.suggestions?.enabled === true);
+          setSuggestionCount(a.suggestions?.count || 3);
+          setFallbackModels(
+            Array.from({ length: FALLBACK_SLOTS }, (_, i) => a.modelFallback?.models?.[i] || '')
+          );
+          setFallbackRetries(a.modelFallback?.retries ?? 2);
+          setFallbackBackoff(String((a.modelFallback?.backoffMs ?? 1000) / 1000));
+          setFallbackTimeout(String((a.modelFallback?.timeoutMs ?? 60000) / 1000));
+          setTemperature(a.generation?.temperature != null ? String(a.generation.temperature) : '');
+          setTopP(a.generation?.topP != null ? String(a.generation.topP) : '');
+          setMaxOutputTokens(a.generation?.maxOutputTokens ? String(a.generation.maxOutputTokens) : '');
+          setStopSequences((a.generation?.stopSequences || []).join('\n'));
+          setThinkingBudget(
+            a.generation?.claude?.thinkingBudgetTokens ? String(a.generation.claude.thinkingBudgetTokens) : ''
+          );
+          setMessagesPerMinute(a.limits?.messagesPerMinute ? String(a.limits.messagesPerMinute) : '');
+          setDailyTokenBudget(a.limits?.dailyTokenBudget ? String(a.limits.dailyTokenBudget) : '');
+          setMonthlySpendCap(a.limits?.monthlySpendCapUsd ? String(a.limits.monthlySpendCapUsd) : '');
+          setAlertThresholdPercent(String(Math.round((a.limits?.alertThreshold ?? 0.8) * 100)));
         }
 
         if (keysRes.ok) {
@@ -197,10 +302,40 @@ export const AgentConfig: React.FC<AgentConfigProps> = ({ apiBaseUrl }) => {
           defaultModel: model,
           modelMode,
           allowedModels: modelMode === 'multi' ? allowedModels : null,
+          handoff: {
+            enabled: handoffEnabled,
+            keywords: handoffKeywords
+              .split('\n')
+              .map((k) => k.trim())
+              .filter(Boolean),
+            modelEscalation: handoffModelEscalation,
+            message: handoffMessage,
+          },
+          suggestions: { enabled: suggestionsEnabled, count: suggestionCount },
+          modelFallback: {
+            models: fallbackModels.filter(Boolean),
+            retries: fallbackRetries,
+            backoffMs: toMs(fallbackBackoff, 0.1, 30),
+            timeoutMs: toMs(fallbackTimeout, 5, 600),
+          },
+          generation: {
+            temperature: toSetting(temperature),
+            topP: toSetting(topP),
+            maxOutputTokens: toSetting(maxOutputTokens),
+            stopSequences: stopSequences.split('\n').filter((s) => s.trim()),
+            claude: { thinkingBudgetTokens: toSetting(thinkingBudget) },
+          },
+          limits: {
+            messagesPerMinute: toLimit(messagesPerMinute),
+            dailyTokenBudget: toLimit(dailyTokenBudget),
+            monthlySpendCapUsd: toLimit(monthlySpendCap),
+            alertThreshold: Math.min(Math.max(Number(alertThresholdPercent) || 80, 1), 100) / 100,
+          },
         }),
       });
       if (!res.ok) {
-        setSaveMessage('Failed to save configuration');
+        const data = await res.json().catch(() => ({}));
+        setSaveMessage(data.error || 'Failed to save configuration');
         return;
       }
 
@@ -350,7 +485,7 @@ export const AgentConfig: React.FC<AgentConfigProps> = ({ apiBaseUrl }) => {
     }
   };
 
-  const updateBranding = (key: keyof AgentBranding, value: string | boolean) => {
+  const updateBranding = (key: keyof AgentBranding, value: string | boolean | string[]) => {
     setBranding((prev) => ({ ...prev, [key]: value }));
   };
 
@@ -701,6 +836,184 @@ export const AgentConfig: React.FC<AgentConfigProps> = ({ apiBaseUrl }) => {
             </div>
           )}
 
+          {/* Model Fallback */}
+          <div>
+            <label style={{ fontSize: 14, fontWeight: 500, display: 'block', marginBottom: 4, color: colors.text }}>
+              Fallback Models
+            </label>
+            <div style={{ fontSize: 13, color: colors.textSecondary, marginBottom: 8 }}>
+              When a model is rate limited, overloaded or does not respond, the request is retried with a growing
+              delay and then handed to the next model below. Providers that keep failing are skipped for a while.
+            </div>
+            <div
+              style={{ display: 'grid', gridTemplateColumns: `repeat(${FALLBACK_SLOTS}, 1fr)`, gap: 12, marginBottom: 12 }}
+            >
+              {fallbackModels.map((fallback, i) => (
+                <div key={i}>
+                  <div style={{ fontSize: 12, color: colors.textSecondary, marginBottom: 4 }}>Fallback {i + 1}</div>
+                  <select
+                    value={fallback}
+                    onChange={(e) =>
+                      setFallbackModels((prev) => prev.map((m, j) => (j === i ? e.target.value : m)))
+                    }
+                    style={{
+                      width: '100%',
+                      padding: '10px 12px',
+                      borderRadius: 8,
+                      border: `1px solid ${colors.border}`,
+                      backgroundColor: colors.bgInput,
+                      color: colors.text,
+                      fontSize: 14,
+                      boxSizing: 'border-box',
+                    }}
+                  >
+                    <option value="">None</option>
+                    {availableModels
+                      .filter((m) => m.id !== model)
+                      .map((m) => (
+                        <option key={m.id} value={m.id}>
+                          {m.name} ({m.provider})
+                        </option>
+                      ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 12 }}>
+              <div>
+                <div style={{ fontSize: 12, color: colors.textSecondary, marginBottom: 4 }}>Retries per model</div>
+                <select
+                  value={fallbackRetries}
+                  onChange={(e) => setFallbackRetries(Number(e.target.value))}
+                  style={{
+                    width: '100%',
+                    padding: '10px 12px',
+                    borderRadius: 8,
+                    border: `1px solid ${colors.border}`,
+                    backgroundColor: colors.bgInput,
+                    color: colors.text,
+                    fontSize: 14,
+                    boxSizing: 'border-box',
+                  }}
+                >
+                  {[0, 1, 2, 3, 4, 5].map((n) => (
+                    <option key={n} value={n}>
+                      {n}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {[
+                { label: 'First retry delay (s, doubles)', value: fallbackBackoff, set: setFallbackBackoff },
+                { label: 'First response timeout (s)', value: fallbackTimeout, set: setFallbackTimeout },
+              ].map((field) => (
+                <div key={field.label}>
+                  <div style={{ fontSize: 12, color: colors.textSecondary, marginBottom: 4 }}>{field.label}</div>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={field.value}
+                    onChange={(e) => field.set(e.target.value)}
+                    style={{
+                      width: '100%',
+                      padding: '10px 12px',
+                      borderRadius: 8,
+                      border: `1px solid ${colors.border}`,
+                      backgroundColor: colors.bgInput,
+                      color: colors.text,
+                      fontSize: 14,
+                      boxSizing: 'border-box',
+                    }}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Generation */}
+          <div>
+            <label style={{ fontSize: 14, fontWeight: 500, display: 'block', marginBottom: 4, color: colors.text }}>
+              Generation
+            </label>
+            <div style={{ fontSize: 13, color: colors.textSecondary, marginBottom: 8 }}>
+              How replies are sampled. Leave a field empty to use the model's default. Max output tokens is lowered for
+              models with a smaller limit.
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 12, marginBottom: 12 }}>
+              {[
+                {
+                  label: 'Temperature (0-2)',
+                  value: temperature,
+                  set: setTemperature,
+                  step: 0.1,
+                  placeholder: 'Default',
+                },
+                { label: 'Top P (0-1)', value: topP, set: setTopP, step: 0.05, placeholder: 'Default' },
+                {
+                  label: 'Max output tokens',
+                  value: maxOutputTokens,
+                  set: setMaxOutputTokens,
+                  step: 1,
+                  placeholder: 'Model maximum',
+                },
+                {
+                  label: 'Claude thinking budget (tokens)',
+                  value: thinkingBudget,
+                  set: setThinkingBudget,
+                  step: 1,
+                  placeholder: 'Off',
+                },
+              ].map((field) => (
+                <div key={field.label}>
+                  <div style={{ fontSize: 12, color: colors.textSecondary, marginBottom: 4 }}>{field.label}</div>
+                  <input
+                    type="number"
+                    min={0}
+                    step={field.step}
+                    value={field.value}
+                    onChange={(e) => field.set(e.target.value)}
+                    placeholder={field.placeholder}
+                    style={{
+                      width: '100%',
+                      padding: '10px 12px',
+                      borderRadius: 8,
+                      border: `1px solid ${colors.border}`,
+                      backgroundColor: colors.bgInput,
+                      color: colors.text,
+                      fontSize: 14,
+                      boxSizing: 'border-box',
+                    }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div style={{ fontSize: 12, color: colors.textSecondary, marginBottom: 4 }}>
+              Stop sequences (one per line, up to 4)
+            </div>
+            <textarea
+              value={stopSequences}
+              onChange={(e) => setStopSequences(e.target.value)}
+              rows={2}
+              style={{
+                width: '100%',
+                padding: '10px 12px',
+                borderRadius: 8,
+                border: `1px solid ${colors.border}`,
+                backgroundColor: colors.bgInput,
+                color: colors.text,
+                fontSize: 14,
+                resize: 'vertical',
+                boxSizing: 'border-box',
+                lineHeight: 1.5,
+              }}
+            />
+            <p style={{ fontSize: 12, color: colors.textMuted, marginTop: 8 }}>
+              The thinking budget lets Claude reason before answering (at least 1024 tokens, added to the output limit).
+              It replaces temperature and top P on Claude models, including replies that call tools.
+            </p>
+          </div>
+
           {/* System Prompt */}
           <div>
             <label style={{ fontSize: 14, fontWeight: 500, display: 'block', marginBottom: 8, color: colors.text }}>
@@ -726,6 +1039,154 @@ export const AgentConfig: React.FC<AgentConfigProps> = ({ apiBaseUrl }) => {
             />
           </div>
 
+          {/* Human Handoff */}
+          <div>
+            <label style={{ fontSize: 14, fontWeight: 500, display: 'block', marginBottom: 8, color: colors.text }}>
+              Human Handoff
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 8, cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={handoffEnabled}
+                onChange={(e) => setHandoffEnabled(e.target.checked)}
+                style={{ accentColor: colors.primary }}
+              />
+              <span style={{ fontSize: 14, color: colors.text }}>Let users reach a person from the Inbox</span>
+            </label>
+            {handoffEnabled && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: 12, paddingLeft: 24 }}>
+                <label style={{ display: 'flex', alignItems: 'center', gap: 8, cursor: 'pointer' }}>
+                  <input
+                    type="checkbox"
+                    checked={handoffModelEscalation}
+                    onChange={(e) => setHandoffModelEscalation(e.target.checked)}
+                    style={{ accentColor: colors.primary }}
+                  />
+                  <span style={{ fontSize: 14, color: colors.text }}>Also escalate when the assistant cannot help</span>
+                </label>
+                <div>
+                  <div style={{ fontSize: 13, color: colors.textSecondary, marginBottom: 4 }}>
+                    Phrases that request a person (one per line)
+                  </div>
+                  <textarea
+                    value={handoffKeywords}
+                    onChange={(e) => setHandoffKeywords(e.target.value)}
+                    rows={4}
+                    style={{
+                      width: '100%',
+                      padding: '12px 16px',
+                      borderRadius: 8,
+                      border: `1px solid ${colors.border}`,
+                      backgroundColor: colors.bgInput,
+                      color: colors.text,
+                      fontSize: 14,
+                      resize: 'vertical',
+                      boxSizing: 'border-box',
+                      lineHeight: 1.5,
+                    }}
+                  />
+                </div>
+                <div>
+                  <div style={{ fontSize: 13, color: colors.textSecondary, marginBottom: 4 }}>
+                    Message shown when the conversation is handed off
+                  </div>
+                  <input
+                    value={handoffMessage}
+                    onChange={(e) => setHandoffMessage(e.target.value)}
+                    style={{
+                      width: '100%',
+                      padding: '12px 16px',
+                      borderRadius: 8,
+                      border: `1px solid ${colors.border}`,
+                      backgroundColor: colors.bgInput,
+                      color: colors.text,
+                      fontSize: 14,
+                      boxSizing: 'border-box',
+                    }}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Follow-up Suggestions */}
+          <div>
+            <label style={{ fontSize: 14, fontWeight: 500, display: 'block', marginBottom: 8, color: colors.text }}>
+              Follow-up Suggestions
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 8, cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={suggestionsEnabled}
+                onChange={(e) => setSuggestionsEnabled(e.target.checked)}
+                style={{ accentColor: colors.primary }}
+              />
+              <span style={{ fontSize: 14, color: colors.text }}>Suggest</span>
+              <select
+                value={suggestionCount}
+                onChange={(e) => setSuggestionCount(Number(e.target.value))}
+                disabled={!suggestionsEnabled}
+                style={{
+                  padding: '4px 8px',
+                  borderRadius: 6,
+                  border: `1px solid ${colors.border}`,
+                  backgroundColor: colors.bgInput,
+                  color: colors.text,
+                  fontSize: 14,
+                }}
+              >
+                {[2, 3, 4].map((n) => (
+                  <option key={n} value={n}>
+                    {n}
+                  </option>
+                ))}
+              </select>
+              <span style={{ fontSize: 14, color: colors.text }}>
+                follow-up questions after each reply, based on the sources it used
+              </span>
+            </label>
+          </div>
+
+          {/* Limits */}
+          <div>
+            <label style={{ fontSize: 14, fontWeight: 500, display: 'block', marginBottom: 4, color: colors.text }}>
+              Limits
+            </label>
+            <div style={{ fontSize: 13, color: colors.textSecondary, marginBottom: 8 }}>
+              Protect the public chat from abuse and runaway spend. Leave a field empty to turn that limit off. Admins
+              are alerted on the Usage page when a budget reaches the alert threshold.
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 12 }}>
+              {[
+                { label: 'Messages per minute per visitor', value: messagesPerMinute, set: setMessagesPerMinute },
+                { label: 'Daily token budget', value: dailyTokenBudget, set: setDailyTokenBudget },
+                { label: 'Monthly spend cap (USD)', value: monthlySpendCap, set: setMonthlySpendCap },
+                { label: 'Alert threshold (%)', value: alertThresholdPercent, set: setAlertThresholdPercent },
+              ].map((field) => (
+                <div key={field.label}>
+                  <div style={{ fontSize: 12, color: colors.textSecondary, marginBottom: 4 }}>{field.label}</div>
+                  <input
+                    type="number"
+                    min={0}
+                    value={field.value}
+                    onChange={(e) => field.set(e.target.value)}
+                    placeholder="No limit"
+                    style={{
+                      width: '100%',
+                      padding: '10px 12px',
+                      borderRadius: 8,
+                      border: `1px solid ${colors.border}`,
+                      backgroundColor: colors.bgInput,
+                      color: colors.text,
+                      fontSize: 14,
+                      boxSizing: 'border-box',
+                    }}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
           {/* Save Button */}
           <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
             <div style={{ fontSize: 13, color: saveMessage?.includes('success') ? colors.success : colors.textSecondary }}>
@@ -1065,6 +1526,16 @@ export const AgentConfig: React.FC<AgentConfigProps> = ({ apiBaseUrl }) => {
                     style={{ width: '100%', padding: '8px 12px', borderRadius: 6, border: `1px solid ${colors.border}`, backgroundColor: colors.bgInput, color: colors.text, fontSize: 13, boxSizing: 'border-box', resize: 'vertical' }}
                   />
                 </div>
+                <div>
+                  <label style={{ fontSize: 12, color: colors.textMuted, display: 'block', marginBottom: 4 }}>Starter Prompts (one per line)</label>
+                  <textarea
+                    value={(branding.starterPrompts || []).join('\n')}
+                    onChange={(e) => updateBranding('starterPrompts', e.target.value.split('\n'))}
+                    placeholder="What can you help me with?"
+                    rows={3}
+                    style={{ width: '100%', padding: '8px 12px', borderRadius: 6, border: `1px solid ${colors.border}`, backgroundColor: colors.bgInput, color: colors.text, fontSize: 13, boxSizing: 'border-box', resize: 'vertical' }}
+                  />
+                </div>
                 <div>
                   <label style={{ fontSize: 12, color: colors.textMuted, display: 'block', marginBottom: 4 }}>Input Placeholder</label>
                   <input
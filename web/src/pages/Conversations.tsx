@@ -0,0 +1,508 @@
+import React, { useEffect, useState } from 'react';
+import { useAdminTheme } from '../AdminThemeContext';
+
+interface ConversationSummary {
+  id: number;
+  externalUserId: string | null;
+  title: string | null;
+  topics: string[] | null;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  lastMessageAt: string | null;
+  totalTokens: number;
+  costUsd: number;
+}
+
+interface TranscriptMessage {
+  id: number;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  metadata?: any;
+  createdAt: string;
+}
+
+interface Transcript {
+  conversation: ConversationSummary & { agentId: string };
+  messages: TranscriptMessage[];
+}
+
+interface Filters {
+  externalUserId: string;
+  from: string;
+  to: string;
+  q: string;
+  topic: string;
+}
+
+interface TopicCount {
+  topic: string;
+  count: number;
+}
+
+interface ConversationsProps {
+  apiBaseUrl: string;
+}
+
+const PAGE_SIZE = 25;
+
+const EXPORT_FORMATS: { id: string; label: string }[] = [
+  { id: 'json', label: 'JSON' },
+  { id: 'csv', label: 'CSV' },
+  { id: 'markdown', label: 'Markdown' },
+];
+
+const emptyFilters: Filters = { externalUserId: '', from: '', to: '', q: '', topic: '' };
+
+function toQuery(params: Record<string, string | number>): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== '') search.set(key, String(value));
+  }
+  return search.toString();
+}
+
+export const Conversations: React.FC<ConversationsProps> = ({ apiBaseUrl }) => {
+  const { colors } = useAdminTheme();
+  const [agents, setAgents] = useState<{ id: string; name: string }[]>([]);
+  const [selectedAgentId, setSelectedAgentId] = useState<string>('');
+  const [draftFilters, setDraftFilters] = useState<Filters>(emptyFilters);
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [page, setPage] = useState(1);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
+  const [transcriptLoading, setTranscriptLoading] = useState(false);
+  const [topics, setTopics] = useState<TopicCount[]>([]);
+
+  // Load agents on mount
+  useEffect(() => {
+    const loadAgents = async () => {
+      try {
+        const res = await fetch(`${apiBaseUrl}/api/admin/agents`);
+        if (res.ok) {
+          const data = await res.json();
+          const agentList = data.agents || [];
+          setAgents(agentList);
+          if (agentList.length > 0 && !selectedAgentId) {
+            setSelectedAgentId(agentList[0].id);
+          }
+        }
+      } catch (e) {
+        console.error(e);
+      }
+    };
+    loadAgents();
+  }, [apiBaseUrl]);
+
+  // Topics to browse by, refreshed per agent
+  useEffect(() => {
+    if (!selectedAgentId) return;
+    const loadTopics = async () => {
+      try {
+        const res = await fetch(`${apiBaseUrl}/api/admin/agents/${selectedAgentId}/conversations/topics`);
+        if (res.ok) {
+          const data = await res.json();
+          setTopics(data.topics || []);
+        }
+      } catch (e) {
+        console.error(e);
+      }
+    };
+    loadTopics();
+  }, [apiBaseUrl, selectedAgentId]);
+
+  // Reload the list when agent, filters or page change
+  useEffect(() => {
+    if (selectedAgentId) {
+      loadConversations();
+    }
+  }, [selectedAgentId, filters, page]);
+
+  const loadConversations = async () => {
+    try {
+      setLoading(true);
+      const query = toQuery({ ...filters, page, pageSize: PAGE_SIZE });
+      const res = await fetch(`${apiBaseUrl}/api/admin/agents/${selectedAgentId}/conversations?${query}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load conversations');
+      setConversations(data.conversations || []);
+      setTotal(data.total || 0);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openTranscript = async (conversationId: number) => {
+    try {
+      setTranscriptLoading(true);
+      const res = await fetch(`${apiBaseUrl}/api/admin/agents/${selectedAgentId}/conversations/${conversationId}`);
+      if (!res.ok) throw new Error('Failed to load conversation');
+      setTranscript(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    } finally {
+      setTranscriptLoading(false);
+    }
+  };
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setFilters(draftFilters);
+  };
+
+  const filterByTopic = (topic: string) => {
+    const next = { ...filters, topic };
+    setDraftFilters(next);
+    setFilters(next);
+    setPage(1);
+  };
+
+  const resetFilters = () => {
+    setDraftFilters(emptyFilters);
+    setFilters(emptyFilters);
+    setPage(1);
+  };
+
+  const exportUrl = (format: string, conversationId?: number) => {
+    const base = `${apiBaseUrl}/api/admin/agents/${selectedAgentId}/conversations`;
+    return conversationId
+      ? `${base}/${conversationId}/export?${toQuery({ format })}`
+      : `${base}/export?${toQuery({ ...filters, format })}`;
+  };
+
+  const totalPages = Math.max(Math.ceil(total / PAGE_SIZE), 1);
+
+  const inputStyle: React.CSSProperties = {
+    padding: '8px 12px',
+    borderRadius: 8,
+    border: `1px solid ${colors.border}`,
+    backgroundColor: colors.bgInput,
+    color: colors.text,
+    fontSize: 13,
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '8px 14px',
+    borderRadius: 8,
+    border: `1px solid ${colors.border}`,
+    backgroundColor: colors.bgCard,
+    color: colors.text,
+    fontSize: 13,
+    cursor: 'pointer',
+    textDecoration: 'none',
+  };
+
+  const cardStyle: React.CSSProperties = {
+    background: colors.bgCard,
+    borderRadius: 12,
+    border: `1px solid ${colors.border}`,
+    boxShadow: colors.shadow,
+  };
+
+  return (
+    <div style={{ maxWidth: 1200, margin: '0 auto' }}>
+      <h1 style={{ fontSize: 24, fontWeight: 600, marginBottom: 8, color: colors.text }}>Conversations</h1>
+      <p style={{ color: colors.textSecondary, marginBottom: 24, fontSize: 14 }}>
+        Review what your agents said to users. Filter by user, topic, date or message text, and export transcripts.
+      </p>
+
+      {/* Agent Selector */}
+      <div style={{ ...cardStyle, padding: 16, marginBottom: 16, display: 'flex', alignItems: 'center', gap: 12 }}>
+        <label style={{ fontSize: 14, fontWeight: 500, whiteSpace: 'nowrap', color: colors.text }}>Agent:</label>
+        <select
+          value={selectedAgentId}
+          onChange={(e) => {
+            setSelectedAgentId(e.target.value);
+            setPage(1);
+            setTranscript(null);
+          }}
+          style={{ ...inputStyle, flex: 1, padding: '10px 14px', fontSize: 14 }}
+        >
+          {agents.map((agent) => (
+            <option key={agent.id} value={agent.id}>
+              {agent.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Filters */}
+      <form
+        onSubmit={applyFilters}
+        style={{ ...cardStyle, padding: 16, marginBottom: 16, display: 'flex', flexWrap: 'wrap', gap: 8, alignItems: 'center' }}
+      >
+        <input
+          type="text"
+          placeholder="Search messages..."
+          value={draftFilters.q}
+          onChange={(e) => setDraftFilters({ ...draftFilters, q: e.target.value })}
+          style={{ ...inputStyle, flex: 2, minWidth: 180 }}
+        />
+        <input
+          type="text"
+          placeholder="External user ID"
+          value={draftFilters.externalUserId}
+          onChange={(e) => setDraftFilters({ ...draftFilters, externalUserId: e.target.value })}
+          style={{ ...inputStyle, flex: 1, minWidth: 140 }}
+        />
+        <select
+          value={draftFilters.topic}
+          onChange={(e) => setDraftFilters({ ...draftFilters, topic: e.target.value })}
+          style={{ ...inputStyle, minWidth: 140 }}
+        >
+          <option value="">All topics</option>
+          {topics.map((t) => (
+            <option key={t.topic} value={t.topic}>
+              {t.topic} ({t.count})
+            </option>
+          ))}
+        </select>
+        <label style={{ fontSize: 13, color: colors.textSecondary }}>From</label>
+        <input
+          type="date"
+          value={draftFilters.from}
+          onChange={(e) => setDraftFilters({ ...draftFilters, from: e.target.value })}
+          style={inputStyle}
+        />
+        <label style={{ fontSize: 13, color: colors.textSecondary }}>To</label>
+        <input
+          type="date"
+          value={draftFilters.to}
+          onChange={(e) => setDraftFilters({ ...draftFilters, to: e.target.value })}
+          style={inputStyle}
+        />
+        <button
+          type="submit"
+          style={{ ...buttonStyle, backgroundColor: colors.primary, color: colors.primaryText, border: 'none' }}
+        >
+          Apply
+        </button>
+        <button type="button" onClick={resetFilters} style={buttonStyle}>
+          Reset
+        </button>
+      </form>
+
+      {error && (
+        <div
+          style={{
+            padding: 12,
+            marginBottom: 16,
+            borderRadius: 8,
+            backgroundColor: colors.errorLight,
+            color: colors.error,
+            fontSize: 13,
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      <div style={{ display: 'grid', gridTemplateColumns: transcript ? '1fr 1.2fr' : '1fr', gap: 16 }}>
+        {/* Conversation List */}
+        <div style={{ ...cardStyle, overflow: 'hidden' }}>
+          <div
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              padding: '12px 16px',
+              borderBottom: `1px solid ${colors.border}`,
+            }}
+          >
+            <span style={{ fontSize: 13, color: colors.textSecondary }}>
+              {loading ? 'Loading...' : `${total} conversation${total === 1 ? '' : 's'}`}
+            </span>
+            <div style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+              <span style={{ fontSize: 12, color: colors.textMuted }}>Export:</span>
+              {EXPORT_FORMATS.map((f) => (
+                <a key={f.id} href={exportUrl(f.id)} style={{ ...buttonStyle, padding: '4px 10px', fontSize: 12 }}>
+                  {f.label}
+                </a>
+              ))}
+            </div>
+          </div>
+
+          {conversations.length === 0 && !loading ? (
+            <div style={{ padding: 24, textAlign: 'center', color: colors.textMuted, fontSize: 14 }}>
+              No conversations found.
+            </div>
+          ) : (
+            conversations.map((c) => (
+              <div
+                key={c.id}
+                onClick={() => openTranscript(c.id)}
+                style={{
+                  padding: '12px 16px',
+                  borderBottom: `1px solid ${colors.borderLight}`,
+                  cursor: 'pointer',
+                  backgroundColor: transcript?.conversation.id === c.id ? colors.bgActive : 'transparent',
+                }}
+              >
+                <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8 }}>
+                  <span style={{ fontSize: 14, fontWeight: 500, color: colors.text }}>
+                    {c.title || `Conversation #${c.id}`}
+                  </span>
+                  <span style={{ fontSize: 12, color: colors.textMuted, whiteSpace: 'nowrap' }}>
+                    {new Date(c.lastMessageAt || c.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                <div style={{ fontSize: 12, color: colors.textSecondary, marginTop: 4 }}>
+                  {c.messageCount} message{c.messageCount === 1 ? '' : 's'}
+                  {c.totalTokens ? ` · ${c.totalTokens.toLocaleString()} tokens · $${c.costUsd.toFixed(4)}` : ''}
+                  {c.externalUserId ? ` · ${c.externalUserId}` : ''}
+                </div>
+                {c.topics && c.topics.length > 0 && (
+                  <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4, marginTop: 6 }}>
+                    {c.topics.map((topic) => (
+                      <button
+                        key={topic}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          filterByTopic(topic);
+                        }}
+                        title={`Show conversations about ${topic}`}
+                        style={{
+                          padding: '2px 8px',
+                          borderRadius: 10,
+                          border: 'none',
+                          fontSize: 11,
+                          cursor: 'pointer',
+                          backgroundColor: filters.topic === topic ? colors.primary : colors.bgSecondary,
+                          color: filters.topic === topic ? colors.primaryText : colors.textSecondary,
+                        }}
+                      >
+                        {topic}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+
+          {/* Pagination */}
+          <div
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              padding: '10px 16px',
+            }}
+          >
+            <button
+              onClick={() => setPage((p) => Math.max(p - 1, 1))}
+              disabled={page <= 1}
+              style={{ ...buttonStyle, opacity: page <= 1 ? 0.5 : 1 }}
+            >
+              Previous
+            </button>
+            <span style={{ fontSize: 13, color: colors.textSecondary }}>
+              Page {page} of {totalPages}
+            </span>
+            <button
+              onClick={() => setPage((p) => Math.min(p + 1, totalPages))}
+              disabled={page >= totalPages}
+              style={{ ...buttonStyle, opacity: page >= totalPages ? 0.5 : 1 }}
+            >
+              Next
+            </button>
+          </div>
+        </div>
+
+        {/* Transcript */}
+        {transcript && (
+          <div style={{ ...cardStyle, display: 'flex', flexDirection: 'column', maxHeight: '75vh' }}>
+            <div
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                padding: '12px 16px',
+                borderBottom: `1px solid ${colors.border}`,
+              }}
+            >
+              <div>
+                <div style={{ fontSize: 15, fontWeight: 600, color: colors.text }}>
+                  {transcript.conversation.title || `Conversation #${transcript.conversation.id}`}
+                </div>
+                <div style={{ fontSize: 12, color: colors.textMuted }}>
+                  Started {new Date(transcript.conversation.createdAt).toLocaleString()}
+                  {transcript.conversation.externalUserId ? ` · ${transcript.conversation.externalUserId}` : ''}
+                </div>
+              </div>
+              <div style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+                {EXPORT_FORMATS.map((f) => (
+                  <a
+                    key={f.id}
+                    href={exportUrl(f.id, transcript.conversation.id)}
+                    style={{ ...buttonStyle, padding: '4px 10px', fontSize: 12 }}
+                  >
+                    {f.label}
+                  </a>
+                ))}
+                <button onClick={() => setTranscript(null)} style={{ ...buttonStyle, padding: '4px 10px' }}>
+                  ✕
+                </button>
+              </div>
+            </div>
+
+            <div style={{ flex: 1, overflowY: 'auto', padding: 16, display: 'flex', flexDirection: 'column', gap: 12 }}>
+              {transcriptLoading && <div style={{ color: colors.textSecondary, fontSize: 13 }}>Loading...</div>}
+              {transcript.messages.map((m) => (
+                <div key={m.id} style={{ alignSelf: m.role === 'user' ? 'flex-end' : 'flex-start', maxWidth: '85%' }}>
+                  <div style={{ fontSize: 11, color: colors.textMuted, marginBottom: 4 }}>
+                    {m.role === 'user' ? 'User' : m.role === 'assistant' ? 'Assistant' : 'System'} ·{' '}
+                    {new Date(m.createdAt).toLocaleString()}
+                    {m.metadata?.model ? ` · ${m.metadata.model}` : ''}
+                    {m.metadata?.usage
+                      ? ` · ${(m.metadata.usage.inputTokens + m.metadata.usage.outputTokens).toLocaleString()} tokens`
+                      : ''}
+                    {typeof m.metadata?.costUsd === 'number' ? ` · $${m.metadata.costUsd.toFixed(4)}` : ''}
+                    {typeof m.metadata?.latencyMs === 'number' ? ` · ${(m.metadata.latencyMs / 1000).toFixed(1)}s` : ''}
+                  </div>
+                  <div
+                    style={{
+                      padding: '10px 14px',
+                      borderRadius: 12,
+                      fontSize: 14,
+                      lineHeight: 1.5,
+                      whiteSpace: 'pre-wrap',
+                      wordBreak: 'break-word',
+                      backgroundColor: m.role === 'user' ? colors.primary : colors.bgSecondary,
+                      color: m.role === 'user' ? colors.primaryText : colors.text,
+                    }}
+                  >
+                    {m.content}
+                  </div>
+                  {Array.isArray(m.metadata?.citations) && m.metadata.citations.length > 0 && (
+                    <div style={{ fontSize: 11, color: colors.textSecondary, marginTop: 4 }}>
+                      {m.metadata.citations.map((c: any) => (
+                        <div key={c.index}>
+                          [{c.index}]{' '}
+                          {c.url ? (
+                            <a href={c.url} target="_blank" rel="noopener noreferrer" style={{ color: colors.primary }}>
+                              {c.title}
+                            </a>
+                          ) : (
+                            c.title
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,307 @@
+import React, { useEffect, useState } from 'react';
+import { useAdminTheme } from '../AdminThemeContext';
+
+type Rating = 'up' | 'down';
+
+interface FeedbackSource {
+  id: number;
+  documentId: number;
+  chunkId: number;
+  title: string;
+  url: string | null;
+  similarity: number;
+  content: string;
+}
+
+interface FeedbackItem {
+  feedback: { id: number; rating: Rating; comment: string | null; updatedAt: string };
+  conversationId: number;
+  messageId: number;
+  question: string | null;
+  answer: string;
+  model: string | null;
+  sources: FeedbackSource[];
+}
+
+interface FeedbackProps {
+  apiBaseUrl: string;
+}
+
+const PAGE_SIZE = 20;
+
+export const Feedback: React.FC<FeedbackProps> = ({ apiBaseUrl }) => {
+  const { colors } = useAdminTheme();
+  const [agents, setAgents] = useState<{ id: string; name: string }[]>([]);
+  const [selectedAgentId, setSelectedAgentId] = useState<string>('');
+  const [rating, setRating] = useState<Rating>('down');
+  const [page, setPage] = useState(1);
+  const [items, setItems] = useState<FeedbackItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [summary, setSummary] = useState<Record<Rating, number>>({ up: 0, down: 0 });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedSource, setExpandedSource] = useState<string | null>(null);
+
+  // Load agents on mount
+  useEffect(() => {
+    const loadAgents = async () => {
+      try {
+        const res = await fetch(`${apiBaseUrl}/api/admin/agents`);
+        if (res.ok) {
+          const data = await res.json();
+          const agentList = data.agents || [];
+          setAgents(agentList);
+          if (agentList.length > 0 && !selectedAgentId) {
+            setSelectedAgentId(agentList[0].id);
+          }
+        }
+      } catch (e) {
+        console.error(e);
+      }
+    };
+    loadAgents();
+  }, [apiBaseUrl]);
+
+  useEffect(() => {
+    if (selectedAgentId) {
+      loadFeedback();
+    }
+  }, [selectedAgentId, rating, page]);
+
+  const loadFeedback = async () => {
+    try {
+      setLoading(true);
+      const res = await fetch(
+        `${apiBaseUrl}/api/admin/agents/${selectedAgentId}/feedback?rating=${rating}&page=${page}&pageSize=${PAGE_SIZE}`
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load feedback');
+      setItems(data.items || []);
+      setTotal(data.total || 0);
+      setSummary(data.summary || { up: 0, down: 0 });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const totalPages = Math.max(Math.ceil(total / PAGE_SIZE), 1);
+  const totalRatings = summary.up + summary.down;
+
+  const cardStyle: React.CSSProperties = {
+    background: colors.bgCard,
+    borderRadius: 12,
+    border: `1px solid ${colors.border}`,
+    boxShadow: colors.shadow,
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '8px 14px',
+    borderRadius: 8,
+    border: `1px solid ${colors.border}`,
+    backgroundColor: colors.bgCard,
+    color: colors.text,
+    fontSize: 13,
+    cursor: 'pointer',
+  };
+
+  return (
+    <div style={{ maxWidth: 1000, margin: '0 auto' }}>
+      <h1 style={{ fontSize: 24, fontWeight: 600, marginBottom: 8, color: colors.text }}>Feedback</h1>
+      <p style={{ color: colors.textSecondary, marginBottom: 24, fontSize: 14 }}>
+        Answers users rated, with the knowledge-base sources that were retrieved for them. Poorly rated answers with
+        weak or missing sources point to gaps in the knowledge base.
+      </p>
+
+      {/* Agent Selector and Summary */}
+      <div style={{ ...cardStyle, padding: 16, marginBottom: 16, display: 'flex', alignItems: 'center', gap: 12 }}>
+        <label style={{ fontSize: 14, fontWeight: 500, whiteSpace: 'nowrap', color: colors.text }}>Agent:</label>
+        <select
+          value={selectedAgentId}
+          onChange={(e) => {
+            setSelectedAgentId(e.target.value);
+            setPage(1);
+          }}
+          style={{
+            flex: 1,
+            padding: '10px 14px',
+            borderRadius: 8,
+            border: `1px solid ${colors.border}`,
+            backgroundColor: colors.bgInput,
+            color: colors.text,
+            fontSize: 14,
+          }}
+        >
+          {agents.map((agent) => (
+            <option key={agent.id} value={agent.id}>
+              {agent.name}
+            </option>
+          ))}
+        </select>
+        {(['down', 'up'] as Rating[]).map((r) => (
+          <button
+            key={r}
+            onClick={() => {
+              setRating(r);
+              setPage(1);
+            }}
+            style={{
+              ...buttonStyle,
+              backgroundColor: rating === r ? colors.primary : colors.bgCard,
+              color: rating === r ? colors.primaryText : colors.text,
+              border: rating === r ? 'none' : buttonStyle.border,
+            }}
+          >
+            {r === 'down' ? '👎' : '👍'} {summary[r]}
+          </button>
+        ))}
+        <span style={{ fontSize: 12, color: colors.textMuted, whiteSpace: 'nowrap' }}>
+          {totalRatings ? `${Math.round((summary.up / totalRatings) * 100)}% positive` : 'No ratings yet'}
+        </span>
+      </div>
+
+      {error && (
+        <div
+          style={{
+            padding: 12,
+            marginBottom: 16,
+            borderRadius: 8,
+            backgroundColor: colors.errorLight,
+            color: colors.error,
+            fontSize: 13,
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div style={{ color: colors.textSecondary, fontSize: 14 }}>Loading feedback...</div>
+      ) : items.length === 0 ? (
+        <div style={{ ...cardStyle, padding: 24, textAlign: 'center', color: colors.textMuted, fontSize: 14 }}>
+          No {rating === 'down' ? 'negative' : 'positive'} feedback yet.
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+          {items.map((item) => (
+            <div key={item.feedback.id} style={{ ...cardStyle, padding: 16 }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 12, color: colors.textMuted }}>
+                <span>
+                  Conversation #{item.conversationId}
+                  {item.model ? ` · ${item.model}` : ''}
+                </span>
+                <span>{new Date(item.feedback.updatedAt).toLocaleString()}</span>
+              </div>
+
+              {item.question && (
+                <div style={{ marginTop: 10, fontSize: 14, color: colors.text }}>
+                  <strong>Question:</strong> {item.question}
+                </div>
+              )}
+              <div
+                style={{
+                  marginTop: 8,
+                  padding: '10px 12px',
+                  borderRadius: 8,
+                  backgroundColor: colors.bgSecondary,
+                  fontSize: 13,
+                  lineHeight: 1.5,
+                  whiteSpace: 'pre-wrap',
+                  color: colors.text,
+                }}
+              >
+                {item.answer}
+              </div>
+
+              {item.feedback.comment && (
+                <div
+                  style={{
+                    marginTop: 8,
+                    padding: '8px 12px',
+                    borderRadius: 8,
+                    backgroundColor: rating === 'down' ? colors.errorLight : colors.successLight,
+                    fontSize: 13,
+                    color: colors.text,
+                  }}
+                >
+                  “{item.feedback.comment}”
+                </div>
+              )}
+
+              <div style={{ marginTop: 10, fontSize: 12, fontWeight: 600, color: colors.textSecondary }}>
+                Retrieved sources ({item.sources.length})
+              </div>
+              {item.sources.length === 0 ? (
+                <div style={{ fontSize: 12, color: colors.warning, marginTop: 4 }}>
+                  Nothing was retrieved from the knowledge base for this answer.
+                </div>
+              ) : (
+                item.sources.map((source) => {
+                  const key = `${item.feedback.id}-${source.id}`;
+                  return (
+                    <div key={key} style={{ marginTop: 4, fontSize: 12, color: colors.text }}>
+                      <span
+                        onClick={() => setExpandedSource(expandedSource === key ? null : key)}
+                        style={{ cursor: 'pointer' }}
+                      >
+                        [{source.id}] {source.title}{' '}
+                        <span style={{ color: colors.textMuted }}>({Math.round(source.similarity * 100)}% match)</span>
+                      </span>
+                      {source.url && (
+                        <a
+                          href={source.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          style={{ marginLeft: 6, color: colors.primary }}
+                        >
+                          open
+                        </a>
+                      )}
+                      {expandedSource === key && (
+                        <div
+                          style={{
+                            marginTop: 4,
+                            padding: '8px 10px',
+                            borderRadius: 6,
+                            border: `1px solid ${colors.borderLight}`,
+                            whiteSpace: 'pre-wrap',
+                            color: colors.textSecondary,
+                          }}
+                        >
+                          {source.content}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          ))}
+
+          {/* Pagination */}
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+            <button
+              onClick={() => setPage((p) => Math.max(p - 1, 1))}
+              disabled={page <= 1}
+              style={{ ...buttonStyle, opacity: page <= 1 ? 0.5 : 1 }}
+            >
+              Previous
+            </button>
+            <span style={{ fontSize: 13, color: colors.textSecondary }}>
+              Page {page} of {totalPages}
+            </span>
+            <button
+              onClick={() => setPage((p) => Math.min(p + 1, totalPages))}
+              disabled={page >= totalPages}
+              style={{ ...buttonStyle, opacity: page >= totalPages ? 0.5 : 1 }}
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,499 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useAdminTheme } from '../AdminThemeContext';
+
+type ConversationStatus = 'bot' | 'pending_human' | 'human' | 'closed';
+
+interface InboxConversation {
+  id: number;
+  externalUserId: string | null;
+  title: string | null;
+  status: ConversationStatus;
+  operatorName: string | null;
+  handoffReason: 'user_request' | 'model' | null;
+  handoffAt: string | null;
+}
+
+interface QueueItem {
+  conversation: InboxConversation;
+  lastMessage: { role: string; content: string; createdAt: string } | null;
+}
+
+interface TranscriptMessage {
+  id: number;
+  role: string;
+  content: string;
+  metadata?: { operatorName?: string } | null;
+  createdAt: string;
+}
+
+interface InboxProps {
+  apiBaseUrl: string;
+}
+
+// New escalations are not pushed, so the queue is refreshed on an interval
+const QUEUE_REFRESH_MS = 10000;
+const TYPING_THROTTLE_MS = 3000;
+const OPERATOR_NAME_KEY = 'inbox.operatorName';
+
+const STATUS_LABELS: Record<ConversationStatus, string> = {
+  bot: 'Bot',
+  pending_human: 'Waiting',
+  human: 'With operator',
+  closed: 'Closed',
+};
+
+const REASON_LABELS: Record<string, string> = {
+  user_request: 'User asked for a person',
+  model: 'Assistant could not help',
+};
+
+export const Inbox: React.FC<InboxProps> = ({ apiBaseUrl }) => {
+  const { colors } = useAdminTheme();
+  const [agents, setAgents] = useState<{ id: string; name: string }[]>([]);
+  const [selectedAgentId, setSelectedAgentId] = useState<string>('');
+  const [operatorName, setOperatorName] = useState<string>(() => localStorage.getItem(OPERATOR_NAME_KEY) || '');
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [conversation, setConversation] = useState<InboxConversation | null>(null);
+  const [messages, setMessages] = useState<TranscriptMessage[]>([]);
+  const [userTyping, setUserTyping] = useState(false);
+  const [reply, setReply] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+  const selectedIdRef = useRef<number | null>(null);
+  const lastTypingRef = useRef(0);
+  const transcriptEndRef = useRef<HTMLDivElement | null>(null);
+
+  selectedIdRef.current = selectedId;
+
+  // Load agents on mount
+  useEffect(() => {
+    const loadAgents = async () => {
+      try {
+        const res = await fetch(`${apiBaseUrl}/api/admin/agents`);
+        if (res.ok) {
+          const data = await res.json();
+          const agentList = data.agents || [];
+          setAgents(agentList);
+          if (agentList.length > 0 && !selectedAgentId) {
+            setSelectedAgentId(agentList[0].id);
+          }
+        }
+      } catch (e) {
+        console.error(e);
+      }
+    };
+    loadAgents();
+  }, [apiBaseUrl]);
+
+  useEffect(() => {
+    if (!selectedAgentId) return;
+    loadQueue();
+    const timer = setInterval(loadQueue, QUEUE_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [selectedAgentId]);
+
+  useEffect(() => {
+    localStorage.setItem(OPERATOR_NAME_KEY, operatorName);
+  }, [operatorName]);
+
+  // Live transcript updates for the open conversation
+  useEffect(() => {
+    const base = (apiBaseUrl || window.location.origin).replace(/^http/, 'ws');
+    const socket = new WebSocket(`${base}/api/chat/ws`);
+    socket.onopen = () => {
+      if (selectedIdRef.current) {
+        socket.send(JSON.stringify({ type: 'subscribe', conversationId: selectedIdRef.current }));
+      }
+    };
+    socket.onmessage = (e) => {
+      let payload: any;
+      try {
+        payload = JSON.parse(e.data);
+      } catch {
+        return;
+      }
+      if (payload.conversationId !== selectedIdRef.current) return;
+
+      if (payload.event === 'message' && payload.message) {
+        setMessages((prev) =>
+          prev.some((m) => m.id === payload.message.id) ? prev : [...prev, payload.message]
+        );
+        setUserTyping(false);
+      } else if (payload.event === 'status') {
+        setConversation((prev) =>
+          prev ? { ...prev, status: payload.status, operatorName: payload.operatorName } : prev
+        );
+        loadQueue();
+      } else if (payload.event === 'typing' && payload.role === 'user') {
+        setUserTyping(payload.typing === true);
+      }
+    };
+    socketRef.current = socket;
+    return () => {
+      socket.close();
+      socketRef.current = null;
+    };
+  }, [apiBaseUrl]);
+
+  useEffect(() => {
+    transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length]);
+
+  const loadQueue = async () => {
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/admin/agents/${selectedAgentId}/inbox`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load inbox');
+      setQueue(data.conversations || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load inbox');
+    }
+  };
+
+  const openConversation = async (id: number) => {
+    setSelectedId(id);
+    setUserTyping(false);
+    setReply('');
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type: 'subscribe', conversationId: id }));
+    }
+
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/admin/agents/${selectedAgentId}/conversations/${id}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load conversation');
+      setConversation(data.conversation);
+      setMessages(data.messages || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load conversation');
+    }
+  };
+
+  // POST an operator action on the open conversation
+  const runAction = async (action: 'claim' | 'release' | 'close' | 'messages', body: Record<string, unknown> = {}) => {
+    if (!selectedId) return null;
+    try {
+      setBusy(true);
+      const res = await fetch(
+        `${apiBaseUrl}/api/admin/agents/${selectedAgentId}/conversations/${selectedId}/${action}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Request failed');
+      setError(null);
+      if (data.conversation) {
+        setConversation(data.conversation);
+        loadQueue();
+      }
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sendReply = async () => {
+    if (!reply.trim()) return;
+    const data = await runAction('messages', { operatorName, content: reply });
+    if (data?.message) {
+      setReply('');
+      setMessages((prev) => (prev.some((m) => m.id === data.message.id) ? prev : [...prev, data.message]));
+    }
+  };
+
+  const notifyTyping = (typing: boolean) => {
+    if (!selectedId) return;
+    const now = Date.now();
+    if (typing && now - lastTypingRef.current < TYPING_THROTTLE_MS) return;
+    lastTypingRef.current = typing ? now : 0;
+    // Best effort; a missed indicator is not worth an error banner
+    fetch(`${apiBaseUrl}/api/admin/agents/${selectedAgentId}/conversations/${selectedId}/typing`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ typing }),
+    }).catch(() => {});
+  };
+
+  const cardStyle: React.CSSProperties = {
+    background: colors.bgCard,
+    borderRadius: 12,
+    border: `1px solid ${colors.border}`,
+    boxShadow: colors.shadow,
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '8px 14px',
+    borderRadius: 8,
+    border: `1px solid ${colors.border}`,
+    backgroundColor: colors.bgCard,
+    color: colors.text,
+    fontSize: 13,
+    cursor: 'pointer',
+  };
+
+  const primaryButtonStyle: React.CSSProperties = {
+    ...buttonStyle,
+    border: 'none',
+    backgroundColor: colors.primary,
+    color: colors.primaryText,
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: '10px 14px',
+    borderRadius: 8,
+    border: `1px solid ${colors.border}`,
+    backgroundColor: colors.bgInput,
+    color: colors.text,
+    fontSize: 14,
+  };
+
+  const statusColor = (status: ConversationStatus) =>
+    status === 'pending_human' ? colors.warning : status === 'human' ? colors.success : colors.textMuted;
+
+  const speaker = (m: TranscriptMessage) =>
+    m.role === 'user'
+      ? 'User'
+      : m.role === 'operator'
+        ? m.metadata?.operatorName || 'Operator'
+        : m.role === 'assistant'
+          ? 'Assistant'
+          : 'System';
+
+  const canReply = conversation?.status === 'human';
+
+  return (
+    <div style={{ maxWidth: 1200, margin: '0 auto' }}>
+      <h1 style={{ fontSize: 24, fontWeight: 600, marginBottom: 8, color: colors.text }}>Inbox</h1>
+      <p style={{ color: colors.textSecondary, marginBottom: 24, fontSize: 14 }}>
+        Conversations handed off to your team. Claim one to reply as yourself; the assistant stays silent until you
+        release it back to the bot or close it.
+      </p>
+
+      {/* Agent Selector and Operator Name */}
+      <div style={{ ...cardStyle, padding: 16, marginBottom: 16, display: 'flex', alignItems: 'center', gap: 12 }}>
+        <label style={{ fontSize: 14, fontWeight: 500, whiteSpace: 'nowrap', color: colors.text }}>Agent:</label>
+        <select
+          value={selectedAgentId}
+          onChange={(e) => {
+            setSelectedAgentId(e.target.value);
+            setSelectedId(null);
+            setConversation(null);
+            setMessages([]);
+          }}
+          style={{ ...inputStyle, flex: 1 }}
+        >
+          {agents.map((agent) => (
+            <option key={agent.id} value={agent.id}>
+              {agent.name}
+            </option>
+          ))}
+        </select>
+        <label style={{ fontSize: 14, fontWeight: 500, whiteSpace: 'nowrap', color: colors.text }}>Your name:</label>
+        <input
+          value={operatorName}
+          onChange={(e) => setOperatorName(e.target.value)}
+          placeholder="Shown to the user"
+          style={{ ...inputStyle, width: 200 }}
+        />
+      </div>
+
+      {error && (
+        <div
+          style={{
+            padding: 12,
+            marginBottom: 16,
+            borderRadius: 8,
+            backgroundColor: colors.errorLight,
+            color: colors.error,
+            fontSize: 13,
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: 16, alignItems: 'flex-start' }}>
+        {/* Queue */}
+        <div style={{ ...cardStyle, width: 340, flexShrink: 0, overflow: 'hidden' }}>
+          <div
+            style={{
+              padding: '12px 16px',
+              borderBottom: `1px solid ${colors.border}`,
+              fontSize: 13,
+              fontWeight: 600,
+              color: colors.textSecondary,
+            }}
+          >
+            Queue ({queue.length})
+          </div>
+          {queue.length === 0 ? (
+            <div style={{ padding: 24, textAlign: 'center', color: colors.textMuted, fontSize: 14 }}>
+              No conversations are waiting for a person.
+            </div>
+          ) : (
+            queue.map(({ conversation: c, lastMessage }) => (
+              <div
+                key={c.id}
+                onClick={() => openConversation(c.id)}
+                style={{
+                  padding: '12px 16px',
+                  borderBottom: `1px solid ${colors.borderLight}`,
+                  cursor: 'pointer',
+                  backgroundColor: selectedId === c.id ? colors.primaryLight : 'transparent',
+                }}
+              >
+                <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 13, color: colors.text }}>
+                  <span style={{ fontWeight: 500 }}>{c.title || `Conversation #${c.id}`}</span>
+                  <span style={{ color: statusColor(c.status), fontSize: 12 }}>
+                    {c.status === 'human' && c.operatorName ? c.operatorName : STATUS_LABELS[c.status]}
+                  </span>
+                </div>
+                {lastMessage && (
+                  <div
+                    style={{
+                      marginTop: 4,
+                      fontSize: 12,
+                      color: colors.textSecondary,
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                      whiteSpace: 'nowrap',
+                    }}
+                  >
+                    {lastMessage.content}
+                  </div>
+                )}
+                <div style={{ marginTop: 4, fontSize: 11, color: colors.textMuted }}>
+                  {c.handoffReason ? REASON_LABELS[c.handoffReason] : 'Taken over by an operator'}
+                  {c.handoffAt ? ` · ${new Date(c.handoffAt).toLocaleTimeString()}` : ''}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Transcript */}
+        <div style={{ ...cardStyle, flex: 1, display: 'flex', flexDirection: 'column', minHeight: 480 }}>
+          {!conversation ? (
+            <div style={{ padding: 24, textAlign: 'center', color: colors.textMuted, fontSize: 14 }}>
+              Select a conversation from the queue.
+            </div>
+          ) : (
+            <>
+              <div
+                style={{
+                  padding: '12px 16px',
+                  borderBottom: `1px solid ${colors.border}`,
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 8,
+                }}
+              >
+                <div style={{ flex: 1, fontSize: 14, color: colors.text }}>
+                  <strong>{conversation.title || `Conversation #${conversation.id}`}</strong>
+                  {conversation.externalUserId && (
+                    <span style={{ color: colors.textMuted }}> · {conversation.externalUserId}</span>
+                  )}
+                  <span style={{ marginLeft: 8, fontSize: 12, color: statusColor(conversation.status) }}>
+                    {STATUS_LABELS[conversation.status]}
+                    {conversation.status === 'human' && conversation.operatorName ? ` (${conversation.operatorName})` : ''}
+                  </span>
+                </div>
+                {(conversation.status === 'pending_human' || conversation.status === 'bot') && (
+                  <button
+                    onClick={() => runAction('claim', { operatorName })}
+                    disabled={busy || !operatorName.trim()}
+                    title={operatorName.trim() ? undefined : 'Enter your name first'}
+                    style={{ ...primaryButtonStyle, opacity: busy || !operatorName.trim() ? 0.5 : 1 }}
+                  >
+                    Claim
+                  </button>
+                )}
+                {(conversation.status === 'pending_human' || conversation.status === 'human') && (
+                  <button onClick={() => runAction('release')} disabled={busy} style={buttonStyle}>
+                    Return to bot
+                  </button>
+                )}
+                {conversation.status !== 'closed' && (
+                  <button onClick={() => runAction('close')} disabled={busy} style={buttonStyle}>
+                    Close
+                  </button>
+                )}
+              </div>
+
+              <div style={{ flex: 1, overflowY: 'auto', padding: 16, maxHeight: 520 }}>
+                {messages.map((m) => (
+                  <div key={m.id} style={{ marginBottom: 12, textAlign: m.role === 'user' ? 'left' : 'right' }}>
+                    <div style={{ fontSize: 11, color: colors.textMuted, marginBottom: 2 }}>
+                      {speaker(m)} · {new Date(m.createdAt).toLocaleTimeString()}
+                    </div>
+                    <div
+                      style={{
+                        display: 'inline-block',
+                        maxWidth: '80%',
+                        padding: '8px 12px',
+                        borderRadius: 8,
+                        fontSize: 13,
+                        lineHeight: 1.5,
+                        whiteSpace: 'pre-wrap',
+                        textAlign: 'left',
+                        color: colors.text,
+                        backgroundColor:
+                          m.role === 'user'
+                            ? colors.bgSecondary
+                            : m.role === 'operator'
+                              ? colors.successLight
+                              : colors.primaryLight,
+                      }}
+                    >
+                      {m.content}
+                    </div>
+                  </div>
+                ))}
+                {userTyping && <div style={{ fontSize: 12, color: colors.textMuted }}>User is typing…</div>}
+                <div ref={transcriptEndRef} />
+              </div>
+
+              <div style={{ padding: 12, borderTop: `1px solid ${colors.border}`, display: 'flex', gap: 8 }}>
+                <textarea
+                  value={reply}
+                  onChange={(e) => {
+                    setReply(e.target.value);
+                    notifyTyping(true);
+                  }}
+                  onBlur={() => notifyTyping(false)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      sendReply();
+                    }
+                  }}
+                  disabled={!canReply}
+                  placeholder={canReply ? 'Reply to the user…' : 'Claim the conversation to reply'}
+                  rows={2}
+                  style={{ ...inputStyle, flex: 1, resize: 'vertical', fontFamily: 'inherit' }}
+                />
+                <button
+                  onClick={sendReply}
+                  disabled={!canReply || busy || !reply.trim()}
+                  style={{ ...primaryButtonStyle, opacity: !canReply || busy || !reply.trim() ? 0.5 : 1 }}
+                >
+                  Send
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,491 @@
+import React, { useEffect, useState } from 'react';
+import { useAdminTheme } from '../AdminThemeContext';
+
+interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+interface CatalogModel {
+  id: string;
+  name: string;
+  provider: string;
+  baseUrl: string | null;
+  contextWindow: number;
+  maxOutputTokens: number | null;
+  pricing: ModelPricing | null;
+  supportsVision: boolean;
+  supportsTools: boolean;
+  enabled: boolean;
+}
+
+// A provider with recent failures; fallback chains skip it while openUntil is set
+// One provider endpoint and API key; agents with their own keys have their own circuits
+interface ProviderCircuit {
+  provider: string;
+  baseUrl: string | null;
+  agentIds: string[];
+  failures: number;
+  openUntil: string | null;
+}
+
+// Form fields are kept as strings while editing
+interface ModelForm {
+  id: string;
+  name: string;
+  provider: string;
+  baseUrl: string;
+  contextWindow: string;
+  maxOutputTokens: string;
+  inputPrice: string;
+  outputPrice: string;
+  supportsVision: boolean;
+  supportsTools: boolean;
+  enabled: boolean;
+}
+
+interface ModelsProps {
+  apiBaseUrl: string;
+}
+
+const PROVIDERS = [
+  { id: 'claude', label: 'Anthropic Claude' },
+  { id: 'openai', label: 'OpenAI' },
+  { id: 'gemini', label: 'Google Gemini' },
+  { id: 'grok', label: 'xAI Grok' },
+  { id: 'local', label: 'Local (OpenAI-compatible)' },
+];
+
+// Only these providers talk to a configurable endpoint
+const BASE_URL_PROVIDERS = ['openai', 'local'];
+
+const emptyForm: ModelForm = {
+  id: '',
+  name: '',
+  provider: 'claude',
+  baseUrl: '',
+  contextWindow: '128000',
+  maxOutputTokens: '',
+  inputPrice: '',
+  outputPrice: '',
+  supportsVision: false,
+  supportsTools: true,
+  enabled: true,
+};
+
+function toForm(model: CatalogModel): ModelForm {
+  return {
+    id: model.id,
+    name: model.name,
+    provider: model.provider,
+    baseUrl: model.baseUrl || '',
+    contextWindow: String(model.contextWindow),
+    maxOutputTokens: model.maxOutputTokens ? String(model.maxOutputTokens) : '',
+    inputPrice: model.pricing ? String(model.pricing.input) : '',
+    outputPrice: model.pricing ? String(model.pricing.output) : '',
+    supportsVision: model.supportsVision,
+    supportsTools: model.supportsTools,
+    enabled: model.enabled,
+  };
+}
+
+function toBody(form: ModelForm) {
+  const priced = form.inputPrice.trim() !== '' || form.outputPrice.trim() !== '';
+  return {
+    id: form.id.trim(),
+    name: form.name.trim(),
+    provider: form.provider,
+    baseUrl: BASE_URL_PROVIDERS.includes(form.provider) ? form.baseUrl.trim() || null : null,
+    contextWindow: Number(form.contextWindow),
+    maxOutputTokens: form.maxOutputTokens.trim() ? Number(form.maxOutputTokens) : null,
+    pricing: priced ? { input: Number(form.inputPrice || 0), output: Number(form.outputPrice || 0) } : null,
+    supportsVision: form.supportsVision,
+    supportsTools: form.supportsTools,
+    enabled: form.enabled,
+  };
+}
+
+export const Models: React.FC<ModelsProps> = ({ apiBaseUrl }) => {
+  const { colors } = useAdminTheme();
+  const [models, setModels] = useState<CatalogModel[]>([]);
+  const [circuits, setCircuits] = useState<ProviderCircuit[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<ModelForm | null>(null);
+  // Id of the model being edited; null while adding
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadModels();
+  }, [apiBaseUrl]);
+
+  const loadModels = async () => {
+    try {
+      setLoading(true);
+      const res = await fetch(`${apiBaseUrl}/api/admin/models?all=true`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load models');
+      setModels(data.models || []);
+      setCircuits(data.circuits || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveModel = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    try {
+      setSaving(true);
+      const url = editingId
+        ? `${apiBaseUrl}/api/admin/models/${encodeURIComponent(editingId)}`
+        : `${apiBaseUrl}/api/admin/models`;
+      const res = await fetch(url, {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toBody(form)),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save model');
+      setForm(null);
+      setEditingId(null);
+      await loadModels();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleEnabled = async (model: CatalogModel) => {
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/admin/models/${encodeURIComponent(model.id)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !model.enabled }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to update model');
+      setModels((prev) => prev.map((m) => (m.id === model.id ? data.model : m)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update');
+    }
+  };
+
+  const removeModel = async (model: CatalogModel) => {
+    if (!confirm(`Remove ${model.name} from the catalog?`)) return;
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/admin/models/${encodeURIComponent(model.id)}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to remove model');
+      setModels((prev) => prev.filter((m) => m.id !== model.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove');
+    }
+  };
+
+  const cardStyle: React.CSSProperties = {
+    background: colors.bgCard,
+    borderRadius: 12,
+    border: `1px solid ${colors.border}`,
+    boxShadow: colors.shadow,
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '8px 14px',
+    borderRadius: 8,
+    border: `1px solid ${colors.border}`,
+    backgroundColor: colors.bgCard,
+    color: colors.text,
+    fontSize: 13,
+    cursor: 'pointer',
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '8px 12px',
+    borderRadius: 8,
+    border: `1px solid ${colors.border}`,
+    backgroundColor: colors.bgInput,
+    color: colors.text,
+    fontSize: 13,
+    boxSizing: 'border-box',
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: 'block',
+    fontSize: 12,
+    fontWeight: 500,
+    color: colors.textSecondary,
+    marginBottom: 4,
+  };
+
+  const cellStyle: React.CSSProperties = {
+    padding: '8px 12px',
+    borderBottom: `1px solid ${colors.borderLight}`,
+    fontSize: 13,
+    color: colors.text,
+    textAlign: 'left',
+  };
+
+  const headerCellStyle: React.CSSProperties = {
+    ...cellStyle,
+    fontWeight: 600,
+    color: colors.textSecondary,
+    fontSize: 12,
+  };
+
+  const updateForm = (field: keyof ModelForm, value: string | boolean) => {
+    setForm((prev) => (prev ? { ...prev, [field]: value } : prev));
+  };
+
+  return (
+    <div style={{ maxWidth: 1100, margin: '0 auto' }}>
+      <h1 style={{ fontSize: 24, fontWeight: 600, marginBottom: 8, color: colors.text }}>Models</h1>
+      <p style={{ color: colors.textSecondary, marginBottom: 24, fontSize: 14 }}>
+        Models agents can use, where they are served and what they cost. Disabled models are hidden from agent
+        configuration and refused in chat.
+      </p>
+
+      {error && (
+        <div
+          style={{
+            padding: 12,
+            marginBottom: 16,
+            borderRadius: 8,
+            backgroundColor: colors.errorLight,
+            color: colors.error,
+            fontSize: 13,
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      {circuits
+        .filter((c) => c.openUntil)
+        .map((c, i) => (
+          <div
+            key={i}
+            style={{
+              padding: 12,
+              marginBottom: 16,
+              borderRadius: 8,
+              backgroundColor: colors.warningLight,
+              color: colors.warning,
+              fontSize: 13,
+            }}
+          >
+            {PROVIDERS.find((p) => p.id === c.provider)?.label || c.provider}
+            {c.baseUrl ? ` (${c.baseUrl})` : ''} failed {c.failures} times in a row for {c.agentIds.join(', ')}. These
+            agents skip it in their fallback chains until {new Date(c.openUntil!).toLocaleTimeString()}.
+          </div>
+        ))}
+
+      {/* Add / Edit Form */}
+      {form ? (
+        <form onSubmit={saveModel} style={{ ...cardStyle, padding: 16, marginBottom: 16 }}>
+          <div style={{ fontSize: 14, fontWeight: 600, color: colors.text, marginBottom: 12 }}>
+            {editingId ? `Edit ${editingId}` : 'Add model'}
+          </div>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 12 }}>
+            <div>
+              <label style={labelStyle}>Model ID (sent to the provider)</label>
+              <input
+                value={form.id}
+                onChange={(e) => updateForm('id', e.target.value)}
+                disabled={!!editingId}
+                placeholder="e.g. llama3.1:8b"
+                style={{ ...inputStyle, opacity: editingId ? 0.6 : 1 }}
+                required
+              />
+            </div>
+            <div>
+              <label style={labelStyle}>Display name</label>
+              <input value={form.name} onChange={(e) => updateForm('name', e.target.value)} style={inputStyle} />
+            </div>
+            <div>
+              <label style={labelStyle}>Provider</label>
+              <select value={form.provider} onChange={(e) => updateForm('provider', e.target.value)} style={inputStyle}>
+                {PROVIDERS.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {BASE_URL_PROVIDERS.includes(form.provider) && (
+              <div style={{ gridColumn: '1 / -1' }}>
+                <label style={labelStyle}>
+                  Base URL{form.provider === 'local' ? ' (defaults to LOCAL_LLM_BASE_URL)' : ' (leave empty for OpenAI)'}
+                </label>
+                <input
+                  value={form.baseUrl}
+                  onChange={(e) => updateForm('baseUrl', e.target.value)}
+                  placeholder="http://localhost:11434/v1"
+                  style={inputStyle}
+                />
+              </div>
+            )}
+            <div>
+              <label style={labelStyle}>Context window (tokens)</label>
+              <input
+                type="number"
+                min={1}
+                value={form.contextWindow}
+                onChange={(e) => updateForm('contextWindow', e.target.value)}
+                style={inputStyle}
+                required
+              />
+            </div>
+            <div>
+              <label style={labelStyle}>Max output tokens (optional)</label>
+              <input
+                type="number"
+                min={1}
+                value={form.maxOutputTokens}
+                onChange={(e) => updateForm('maxOutputTokens', e.target.value)}
+                style={inputStyle}
+              />
+            </div>
+            <div style={{ display: 'flex', gap: 8 }}>
+              <div style={{ flex: 1 }}>
+                <label style={labelStyle}>Input $ / 1M tokens</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={form.inputPrice}
+                  onChange={(e) => updateForm('inputPrice', e.target.value)}
+                  style={inputStyle}
+                />
+              </div>
+              <div style={{ flex: 1 }}>
+                <label style={labelStyle}>Output $ / 1M tokens</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={form.outputPrice}
+                  onChange={(e) => updateForm('outputPrice', e.target.value)}
+                  style={inputStyle}
+                />
+              </div>
+            </div>
+          </div>
+          <div style={{ display: 'flex', gap: 20, marginTop: 12, fontSize: 13, color: colors.text }}>
+            {(
+              [
+                ['supportsVision', 'Accepts images'],
+                ['supportsTools', 'Supports tool calls'],
+                ['enabled', 'Enabled'],
+              ] as const
+            ).map(([field, label]) => (
+              <label key={field} style={{ display: 'flex', alignItems: 'center', gap: 6, cursor: 'pointer' }}>
+                <input type="checkbox" checked={form[field]} onChange={(e) => updateForm(field, e.target.checked)} />
+                {label}
+              </label>
+            ))}
+          </div>
+          <div style={{ display: 'flex', gap: 8, marginTop: 16 }}>
+            <button
+              type="submit"
+              disabled={saving}
+              style={{ ...buttonStyle, backgroundColor: colors.primary, color: colors.primaryText, border: 'none' }}
+            >
+              {saving ? 'Saving...' : editingId ? 'Save changes' : 'Add model'}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setForm(null);
+                setEditingId(null);
+              }}
+              style={buttonStyle}
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div style={{ marginBottom: 16 }}>
+          <button
+            onClick={() => {
+              setForm(emptyForm);
+              setEditingId(null);
+            }}
+            style={{ ...buttonStyle, backgroundColor: colors.primary, color: colors.primaryText, border: 'none' }}
+          >
+            + Add model
+          </button>
+        </div>
+      )}
+
+      {/* Catalog */}
+      <div style={{ ...cardStyle, overflow: 'hidden' }}>
+        {loading && !models.length ? (
+          <div style={{ padding: 24, color: colors.textSecondary, fontSize: 14 }}>Loading models...</div>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                <th style={headerCellStyle}>Model</th>
+                <th style={headerCellStyle}>Provider</th>
+                <th style={headerCellStyle}>Context</th>
+                <th style={headerCellStyle}>Max output</th>
+                <th style={headerCellStyle}>Price in / out</th>
+                <th style={headerCellStyle}>Capabilities</th>
+                <th style={headerCellStyle}>Enabled</th>
+                <th style={headerCellStyle} />
+              </tr>
+            </thead>
+            <tbody>
+              {models.map((m) => (
+                <tr key={m.id} style={{ opacity: m.enabled ? 1 : 0.55 }}>
+                  <td style={cellStyle}>
+                    <div style={{ fontWeight: 500 }}>{m.name}</div>
+                    <div style={{ fontSize: 11, color: colors.textMuted }}>{m.id}</div>
+                  </td>
+                  <td style={cellStyle}>
+                    {m.provider}
+                    {m.baseUrl && <div style={{ fontSize: 11, color: colors.textMuted }}>{m.baseUrl}</div>}
+                  </td>
+                  <td style={cellStyle}>{m.contextWindow.toLocaleString()}</td>
+                  <td style={cellStyle}>{m.maxOutputTokens ? m.maxOutputTokens.toLocaleString() : '—'}</td>
+                  <td style={cellStyle}>{m.pricing ? `$${m.pricing.input} / $${m.pricing.output}` : 'Unpriced'}</td>
+                  <td style={cellStyle}>
+                    {[m.supportsVision && 'Images', m.supportsTools && 'Tools'].filter(Boolean).join(', ') || '—'}
+                  </td>
+                  <td style={cellStyle}>
+                    <input type="checkbox" checked={m.enabled} onChange={() => toggleEnabled(m)} />
+                  </td>
+                  <td style={{ ...cellStyle, whiteSpace: 'nowrap', textAlign: 'right' }}>
+                    <button
+                      onClick={() => {
+                        setForm(toForm(m));
+                        setEditingId(m.id);
+                      }}
+                      style={{ ...buttonStyle, padding: '4px 10px', marginRight: 6 }}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => removeModel(m)}
+                      style={{ ...buttonStyle, padding: '4px 10px', color: colors.error }}
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
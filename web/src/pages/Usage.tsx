@@ -0,0 +1,400 @@
+import React, { useEffect, useState } from 'react';
+import { useAdminTheme } from '../AdminThemeContext';
+
+interface UsageTotals {
+  messages: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  unpricedMessages: number;
+  avgLatencyMs: number | null;
+}
+
+interface UsageReport {
+  totals: UsageTotals;
+  daily: (UsageTotals & { date: string })[];
+  byModel: (UsageTotals & { model: string })[];
+  topConversations: {
+    conversationId: number;
+    title: string | null;
+    externalUserId: string | null;
+    costUsd: number;
+    inputTokens: number;
+    outputTokens: number;
+  }[];
+  from: string;
+  to: string;
+}
+
+interface LimitAlert {
+  id: number;
+  kind: string;
+  message: string;
+  acknowledgedAt: string | null;
+  createdAt: string;
+}
+
+interface UsageProps {
+  apiBaseUrl: string;
+}
+
+const RANGES = [7, 30, 90];
+
+// Small agents cost fractions of a cent per day
+const formatCost = (value: number) => `$${value.toFixed(value >= 100 ? 0 : value >= 1 ? 2 : 4)}`;
+const formatTokens = (value: number) => value.toLocaleString();
+
+export const Usage: React.FC<UsageProps> = ({ apiBaseUrl }) => {
+  const { colors } = useAdminTheme();
+  const [agents, setAgents] = useState<{ id: string; name: string }[]>([]);
+  const [selectedAgentId, setSelectedAgentId] = useState<string>('');
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [alerts, setAlerts] = useState<LimitAlert[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load agents on mount
+  useEffect(() => {
+    const loadAgents = async () => {
+      try {
+        const res = await fetch(`${apiBaseUrl}/api/admin/agents`);
+        if (res.ok) {
+          const data = await res.json();
+          const agentList = data.agents || [];
+          setAgents(agentList);
+          if (agentList.length > 0 && !selectedAgentId) {
+            setSelectedAgentId(agentList[0].id);
+          }
+        }
+      } catch (e) {
+        console.error(e);
+      }
+    };
+    loadAgents();
+  }, [apiBaseUrl]);
+
+  useEffect(() => {
+    if (selectedAgentId) {
+      loadUsage();
+    }
+  }, [selectedAgentId, days]);
+
+  useEffect(() => {
+    if (selectedAgentId) {
+      loadAlerts();
+    }
+  }, [selectedAgentId]);
+
+  const loadAlerts = async () => {
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/admin/agents/${selectedAgentId}/alerts`);
+      if (res.ok) {
+        const data = await res.json();
+        setAlerts(data.alerts || []);
+      }
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const acknowledgeAlert = async (alertId: number) => {
+    try {
+      const res = await fetch(`${apiBaseUrl}/api/admin/agents/${selectedAgentId}/alerts/${alertId}/acknowledge`, {
+        method: 'POST',
+      });
+      if (res.ok) {
+        const data = await res.json();
+        setAlerts((prev) => prev.map((a) => (a.id === alertId ? data.alert : a)));
+      }
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const openAlerts = alerts.filter((a) => !a.acknowledgedAt);
+
+  const loadUsage = async () => {
+    try {
+      setLoading(true);
+      const from = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+      const res = await fetch(
+        `${apiBaseUrl}/api/admin/agents/${selectedAgentId}/usage?from=${encodeURIComponent(from)}`
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load usage');
+      setReport(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const cardStyle: React.CSSProperties = {
+    background: colors.bgCard,
+    borderRadius: 12,
+    border: `1px solid ${colors.border}`,
+    boxShadow: colors.shadow,
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '8px 14px',
+    borderRadius: 8,
+    border: `1px solid ${colors.border}`,
+    backgroundColor: colors.bgCard,
+    color: colors.text,
+    fontSize: 13,
+    cursor: 'pointer',
+  };
+
+  const cellStyle: React.CSSProperties = {
+    padding: '8px 12px',
+    borderBottom: `1px solid ${colors.borderLight}`,
+    fontSize: 13,
+    color: colors.text,
+    textAlign: 'right',
+  };
+
+  const headerCellStyle: React.CSSProperties = {
+    ...cellStyle,
+    fontWeight: 600,
+    color: colors.textSecondary,
+    fontSize: 12,
+  };
+
+  const maxDailyCost = Math.max(...(report?.daily.map((d) => d.costUsd) || [0]), 0);
+
+  const stats = report
+    ? [
+        { label: 'Cost', value: formatCost(report.totals.costUsd) },
+        { label: 'Replies', value: formatTokens(report.totals.messages) },
+        { label: 'Input tokens', value: formatTokens(report.totals.inputTokens) },
+        { label: 'Output tokens', value: formatTokens(report.totals.outputTokens) },
+        {
+          label: 'Avg. latency',
+          value: report.totals.avgLatencyMs !== null ? `${(report.totals.avgLatencyMs / 1000).toFixed(1)}s` : '—',
+        },
+      ]
+    : [];
+
+  return (
+    <div style={{ maxWidth: 1000, margin: '0 auto' }}>
+      <h1 style={{ fontSize: 24, fontWeight: 600, marginBottom: 8, color: colors.text }}>Usage</h1>
+      <p style={{ color: colors.textSecondary, marginBottom: 24, fontSize: 14 }}>
+        Tokens and model cost of each agent's replies, priced at the list price when each reply was generated.
+      </p>
+
+      {/* Agent Selector and Range */}
+      <div style={{ ...cardStyle, padding: 16, marginBottom: 16, display: 'flex', alignItems: 'center', gap: 12 }}>
+        <label style={{ fontSize: 14, fontWeight: 500, whiteSpace: 'nowrap', color: colors.text }}>Agent:</label>
+        <select
+          value={selectedAgentId}
+          onChange={(e) => setSelectedAgentId(e.target.value)}
+          style={{
+            flex: 1,
+            padding: '10px 14px',
+            borderRadius: 8,
+            border: `1px solid ${colors.border}`,
+            backgroundColor: colors.bgInput,
+            color: colors.text,
+            fontSize: 14,
+          }}
+        >
+          {agents.map((agent) => (
+            <option key={agent.id} value={agent.id}>
+              {agent.name}
+            </option>
+          ))}
+        </select>
+        {RANGES.map((range) => (
+          <button
+            key={range}
+            onClick={() => setDays(range)}
+            style={{
+              ...buttonStyle,
+              backgroundColor: days === range ? colors.primary : colors.bgCard,
+              color: days === range ? colors.primaryText : colors.text,
+              border: days === range ? 'none' : buttonStyle.border,
+            }}
+          >
+            {range} days
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div
+          style={{
+            padding: 12,
+            marginBottom: 16,
+            borderRadius: 8,
+            backgroundColor: colors.errorLight,
+            color: colors.error,
+            fontSize: 13,
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      {/* Limit Alerts */}
+      {openAlerts.length > 0 && (
+        <div style={{ ...cardStyle, padding: 16, marginBottom: 16 }}>
+          <div style={{ fontSize: 14, fontWeight: 600, color: colors.text, marginBottom: 8 }}>
+            Limit alerts ({openAlerts.length})
+          </div>
+          {openAlerts.map((alert) => (
+            <div
+              key={alert.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 12,
+                padding: '8px 12px',
+                marginTop: 6,
+                borderRadius: 8,
+                backgroundColor: alert.kind.endsWith('_warning') ? colors.warningLight : colors.errorLight,
+                fontSize: 13,
+                color: colors.text,
+              }}
+            >
+              <span style={{ flex: 1 }}>{alert.message}</span>
+              <span style={{ fontSize: 12, color: colors.textMuted, whiteSpace: 'nowrap' }}>
+                {new Date(alert.createdAt).toLocaleString()}
+              </span>
+              <button onClick={() => acknowledgeAlert(alert.id)} style={{ ...buttonStyle, padding: '4px 10px' }}>
+                Dismiss
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {loading && !report ? (
+        <div style={{ color: colors.textSecondary, fontSize: 14 }}>Loading usage...</div>
+      ) : !report || report.totals.messages === 0 ? (
+        <div style={{ ...cardStyle, padding: 24, textAlign: 'center', color: colors.textMuted, fontSize: 14 }}>
+          No usage recorded in this period.
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+          {/* Totals */}
+          <div style={{ display: 'grid', gridTemplateColumns: `repeat(${stats.length}, 1fr)`, gap: 12 }}>
+            {stats.map((stat) => (
+              <div key={stat.label} style={{ ...cardStyle, padding: 16 }}>
+                <div style={{ fontSize: 12, color: colors.textMuted }}>{stat.label}</div>
+                <div style={{ fontSize: 22, fontWeight: 600, color: colors.text, marginTop: 4 }}>{stat.value}</div>
+              </div>
+            ))}
+          </div>
+          {report.totals.unpricedMessages > 0 && (
+            <div style={{ fontSize: 12, color: colors.warning }}>
+              {report.totals.unpricedMessages} repl{report.totals.unpricedMessages === 1 ? 'y' : 'ies'} used a model
+              without a price and {report.totals.unpricedMessages === 1 ? 'is' : 'are'} not included in the cost.
+            </div>
+          )}
+
+          {/* Daily */}
+          <div style={{ ...cardStyle, padding: 16 }}>
+            <div style={{ fontSize: 14, fontWeight: 600, color: colors.text, marginBottom: 12 }}>Daily cost</div>
+            <div style={{ display: 'flex', alignItems: 'flex-end', gap: 2, height: 120 }}>
+              {report.daily.map((d) => (
+                <div
+                  key={d.date}
+                  title={`${d.date}: ${formatCost(d.costUsd)} · ${d.messages} replies · ${formatTokens(
+                    d.inputTokens + d.outputTokens
+                  )} tokens`}
+                  style={{
+                    flex: 1,
+                    height: maxDailyCost ? `${Math.max((d.costUsd / maxDailyCost) * 100, 2)}%` : 2,
+                    backgroundColor: colors.primary,
+                    borderRadius: '3px 3px 0 0',
+                  }}
+                />
+              ))}
+            </div>
+            <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: 16 }}>
+              <thead>
+                <tr>
+                  <th style={{ ...headerCellStyle, textAlign: 'left' }}>Day</th>
+                  <th style={headerCellStyle}>Replies</th>
+                  <th style={headerCellStyle}>Input tokens</th>
+                  <th style={headerCellStyle}>Output tokens</th>
+                  <th style={headerCellStyle}>Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...report.daily].reverse().map((d) => (
+                  <tr key={d.date}>
+                    <td style={{ ...cellStyle, textAlign: 'left' }}>{d.date}</td>
+                    <td style={cellStyle}>{d.messages}</td>
+                    <td style={cellStyle}>{formatTokens(d.inputTokens)}</td>
+                    <td style={cellStyle}>{formatTokens(d.outputTokens)}</td>
+                    <td style={cellStyle}>{formatCost(d.costUsd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* By Model */}
+          <div style={{ ...cardStyle, padding: 16 }}>
+            <div style={{ fontSize: 14, fontWeight: 600, color: colors.text, marginBottom: 12 }}>By model</div>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr>
+                  <th style={{ ...headerCellStyle, textAlign: 'left' }}>Model</th>
+                  <th style={headerCellStyle}>Replies</th>
+                  <th style={headerCellStyle}>Input tokens</th>
+                  <th style={headerCellStyle}>Output tokens</th>
+                  <th style={headerCellStyle}>Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.byModel.map((m) => (
+                  <tr key={m.model}>
+                    <td style={{ ...cellStyle, textAlign: 'left' }}>{m.model}</td>
+                    <td style={cellStyle}>{m.messages}</td>
+                    <td style={cellStyle}>{formatTokens(m.inputTokens)}</td>
+                    <td style={cellStyle}>{formatTokens(m.outputTokens)}</td>
+                    <td style={cellStyle}>{m.unpricedMessages === m.messages ? '—' : formatCost(m.costUsd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Top Conversations */}
+          <div style={{ ...cardStyle, padding: 16 }}>
+            <div style={{ fontSize: 14, fontWeight: 600, color: colors.text, marginBottom: 12 }}>
+              Most expensive conversations
+            </div>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr>
+                  <th style={{ ...headerCellStyle, textAlign: 'left' }}>Conversation</th>
+                  <th style={headerCellStyle}>Tokens</th>
+                  <th style={headerCellStyle}>Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.topConversations.map((c) => (
+                  <tr key={c.conversationId}>
+                    <td style={{ ...cellStyle, textAlign: 'left' }}>
+                      {c.title || `Conversation #${c.conversationId}`}
+                      {c.externalUserId && <span style={{ color: colors.textMuted }}> · {c.externalUserId}</span>}
+                    </td>
+                    <td style={cellStyle}>{formatTokens(c.inputTokens + c.outputTokens)}</td>
+                    <td style={cellStyle}>{formatCost(c.costUsd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -44,6 +44,7 @@ export interface AgentTheme {
   // Welcome message
   welcomeTitle: string;
   welcomeMessage: string;
+  starterPrompts: string[]; // Clickable example questions on the welcome screen
 
   // Dark mode
   darkMode: boolean;
@@ -94,6 +95,7 @@ export const defaultTheme: AgentTheme = {
   // Welcome message
   welcomeTitle: 'Welcome!',
   welcomeMessage: 'Ask a question or paste some context. The assistant will stream a detailed answer.',
+  starterPrompts: [],
 
   // Dark mode
   darkMode: false,